@@ -1,6 +1,15 @@
+const path = require('path');
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // The shared SDK ships TypeScript sources (see ../packages/sdk)
+  transpilePackages: ['@zero-g/sdk'],
+  webpack: (config) => {
+    // Resolve the SDK's viem import to the app's copy rather than the root one
+    config.resolve.alias = { ...config.resolve.alias, viem: path.resolve(__dirname, 'node_modules/viem') };
+    return config;
+  },
 }
 
 module.exports = nextConfig
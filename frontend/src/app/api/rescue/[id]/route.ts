@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJob } from '../jobs';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const job = getJob(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: 'Rescue job not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(job);
+}
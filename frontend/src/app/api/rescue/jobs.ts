@@ -0,0 +1,92 @@
+import { randomUUID } from 'crypto';
+import { FINISHED_JOB_STATUSES, type RescueJob } from '@zero-g/sdk';
+
+// Finished jobs are kept around long enough for clients to read the outcome
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+// In-memory job store. Kept on globalThis so Next.js dev hot reloads and the
+// two route modules (POST /api/rescue, GET /api/rescue/[id]) share one map.
+// A multi-instance deployment would need a shared store (e.g. Redis) instead.
+const globalStore = globalThis as unknown as {
+  __rescueJobs?: Map<string, RescueJob>;
+  __rescueReservations?: Map<string, JobReservation>;
+};
+const jobs = (globalStore.__rescueJobs ??= new Map<string, RescueJob>());
+
+// Requests still being validated and quoted: they block duplicates but are
+// not jobs yet, so GET /api/rescue/[id] doesn't see them
+export type JobReservation = Pick<RescueJob, 'id' | 'userAddress' | 'vaultAddress'>;
+const reservations = (globalStore.__rescueReservations ??= new Map<string, JobReservation>());
+
+function pruneJobs() {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  for (const [id, job] of jobs) {
+    if (FINISHED_JOB_STATUSES.includes(job.status) && job.updatedAt < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
+
+/**
+ * Reserve a user and vault while their request is validated
+ * Turn it into a job with queueJob, or drop it with releaseJob
+ */
+export function reserveJob(fields: Pick<RescueJob, 'userAddress' | 'vaultAddress'>): JobReservation {
+  const reservation = { id: randomUUID(), ...fields };
+  reservations.set(reservation.id, reservation);
+  return reservation;
+}
+
+/**
+ * Queue a reserved request as a job once it has been quoted
+ */
+export function queueJob(reservation: JobReservation, fees: RescueJob['fees']): RescueJob {
+  pruneJobs();
+
+  const now = Date.now();
+  const job: RescueJob = {
+    ...reservation,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    fees,
+  };
+  reservations.delete(reservation.id);
+  jobs.set(job.id, job);
+  return job;
+}
+
+/**
+ * Drop a reservation whose request was rejected (no-op once queued)
+ */
+export function releaseJob(reservation: JobReservation): void {
+  reservations.delete(reservation.id);
+}
+
+export function updateJob(id: string, fields: Partial<Omit<RescueJob, 'id'>>): void {
+  const job = jobs.get(id);
+  if (job) {
+    Object.assign(job, fields, { updatedAt: Date.now() });
+  }
+}
+
+export function getJob(id: string): RescueJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Find an unfinished job or a reservation for the same user and vault
+ */
+export function findActiveJob(
+  userAddress: string,
+  vaultAddress: string
+): { job: RescueJob } | { reservation: JobReservation } | undefined {
+  const sameStake = (entry: JobReservation) =>
+    entry.userAddress.toLowerCase() === userAddress.toLowerCase() &&
+    entry.vaultAddress.toLowerCase() === vaultAddress.toLowerCase();
+
+  const job = Array.from(jobs.values()).find((job) => !FINISHED_JOB_STATUSES.includes(job.status) && sameStake(job));
+  if (job) return { job };
+  const reservation = Array.from(reservations.values()).find(sameStake);
+  return reservation ? { reservation } : undefined;
+}
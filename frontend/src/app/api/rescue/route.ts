@@ -1,138 +1,414 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createWalletClient, createPublicClient, http, parseAbi, encodeFunctionData } from 'viem';
-import { bscTestnet } from 'viem/chains';
+import {
+  createWalletClient,
+  createPublicClient,
+  http,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  type Address,
+  type LocalAccount,
+  type PublicClient,
+} from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
+import { recoverAuthorizationAddress } from 'viem/utils';
+import { findActiveJob, getJob, queueJob, releaseJob, reserveJob, updateJob } from './jobs';
+import {
+  assertConfigChecks,
+  buildRescueTransaction,
+  checkAddress,
+  checkDeployment,
+  ConfigError,
+  createRemoteSignerAccount,
+  estimateRescueGas,
+  quoteRescue,
+  getNonceManager,
+  simulateRescue,
+  withReservedNonce,
+  RescueGasEstimationRevertedError,
+  TransactionTracker,
+  TransactionTrackingError,
+  type AuthorizationTuple,
+  type ConfigCheck,
+  type NonceManagerRegistry,
+  type RescueRejection,
+  type SentTransaction,
+  type TrackedTransactionRequest,
+  type TransactionSender,
+} from '@zero-g/sdk';
+import { chain, deployment } from '@/config/deployments';
 
-// Contract addresses from environment
+// Contract addresses from deployments.json, overridable from environment
 const CONTRACTS = {
-  vault: process.env.STAKING_VAULT_ADDRESS as `0x${string}`,
-  delegate: process.env.UNSTAKE_DELEGATE_ADDRESS as `0x${string}`,
+  token: (process.env.ZERO_G_TOKEN_ADDRESS || deployment.contracts.token) as `0x${string}`,
+  vault: (process.env.STAKING_VAULT_ADDRESS || deployment.contracts.vault) as `0x${string}`,
+  delegate: (process.env.UNSTAKE_DELEGATE_ADDRESS || deployment.contracts.delegate) as `0x${string}`,
 };
 
-const UnstakeDelegateABI = parseAbi([
-  'function executeRescue(address vault, address relayer, uint256 maxFee) external',
-  'function estimateRescue(address vault, address user) external view returns (uint256 amount, uint256 fee, uint256 netAmount, bool canRescue)',
-]);
+// Vaults the relayer rescues from, as for the scripts:
+// SUPPORTED_VAULTS=0xVault:0xToken,0xVault:0xToken (default: the vault above)
+const SUPPORTED_VAULTS: { address: Address; token: Address }[] = process.env.SUPPORTED_VAULTS
+  ? process.env.SUPPORTED_VAULTS.split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [address = '', token = ''] = entry.split(':');
+        return { address: address as Address, token: token as Address };
+      })
+  : [{ address: CONTRACTS.vault, token: CONTRACTS.token }];
+
+// The network's RPC, unless its rpcEnv (e.g. BSC_TESTNET_RPC) overrides it
+const RPC_URL = (deployment.rpcEnv && process.env[deployment.rpcEnv]) || deployment.rpcUrls[0];
+
+// Relayer nonce managers, kept on globalThis so every API route module (and
+// dev hot reloads) share one per account
+const globalStore = globalThis as unknown as { __nonceManagers?: NonceManagerRegistry };
+const nonceManagers = (globalStore.__nonceManagers ??= new Map());
+
+// Configuration checks, run once per server process on the first request
+let configChecked: Promise<void> | undefined;
+
+/**
+ * Validate the route's configuration: address checksums, a relayer signer,
+ * and on chain the RPC's chain id, contract code and the vault's staking token
+ * Throws a ConfigError listing every problem
+ */
+function checkConfig(): Promise<void> {
+  configChecked ??= (async () => {
+    const checks: ConfigCheck[] = Object.entries(CONTRACTS).map(([name, address]) =>
+      address ? checkAddress(name, address) : { name, status: 'error', message: 'not set for this network' }
+    );
+    if (process.env.SUPPORTED_VAULTS) {
+      for (const vault of SUPPORTED_VAULTS) {
+        checks.push(checkAddress('SUPPORTED_VAULTS vault', vault.address));
+        checks.push(checkAddress('SUPPORTED_VAULTS token', vault.token));
+      }
+    }
+    if (process.env.RELAYER_SIGNER_ADDRESS) {
+      checks.push(checkAddress('RELAYER_SIGNER_ADDRESS', process.env.RELAYER_SIGNER_ADDRESS));
+    }
+    if (!process.env.RELAYER_SIGNER_URL && !/^0x[0-9a-fA-F]{64}$/.test(process.env.RELAYER_PRIVATE_KEY ?? '')) {
+      checks.push({
+        name: 'relayer signer',
+        status: 'error',
+        message: 'set RELAYER_SIGNER_URL or a valid RELAYER_PRIVATE_KEY',
+      });
+    }
+    assertConfigChecks(checks);
+
+    const publicClient = createPublicClient({ chain, transport: http(RPC_URL) });
+    assertConfigChecks(
+      await checkDeployment(publicClient, { chainId: chain.id, contracts: CONTRACTS, vaults: SUPPORTED_VAULTS })
+    );
+  })().catch((error) => {
+    // Check again on the next request once the problem may be fixed
+    configChecked = undefined;
+    throw error;
+  });
+  return configChecked;
+}
+
+/**
+ * The relayer account: a Web3Signer-compatible remote signer (RELAYER_SIGNER_URL,
+ * optionally pinned to RELAYER_SIGNER_ADDRESS) or, for development,
+ * RELAYER_PRIVATE_KEY. Returns null when neither is set
+ */
+async function getRelayerAccount(): Promise<LocalAccount | null> {
+  if (process.env.RELAYER_SIGNER_URL) {
+    return createRemoteSignerAccount({
+      url: process.env.RELAYER_SIGNER_URL,
+      address: process.env.RELAYER_SIGNER_ADDRESS as Address | undefined,
+    });
+  }
+  const privateKey = process.env.RELAYER_PRIVATE_KEY as `0x${string}` | undefined;
+  return privateKey ? privateKeyToAccount(privateKey) : null;
+}
+
+/**
+ * Parse the client-signed EIP-7702 authorization from the request body
+ * Returns null if any field is missing or malformed
+ */
+function parseAuthorization(raw: any): AuthorizationTuple | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const chainId = Number(raw.chainId);
+  const nonce = Number(raw.nonce);
+  const yParity = Number(raw.yParity);
+
+  if (
+    typeof raw.address !== 'string' || !isAddress(raw.address) ||
+    !Number.isSafeInteger(chainId) ||
+    !Number.isSafeInteger(nonce) || nonce < 0 ||
+    (yParity !== 0 && yParity !== 1) ||
+    !isHex(raw.r) || !isHex(raw.s)
+  ) {
+    return null;
+  }
+
+  return { address: raw.address, chainId, nonce, yParity, r: raw.r, s: raw.s };
+}
+
+/**
+ * Submit a queued rescue and track it until a version of it is mined,
+ * speeding it up (or cancelling it, see TX_CANCEL_AFTER_MS) while it is stuck
+ * Runs detached from the HTTP request so slow blocks don't time out the client
+ */
+async function runRescueJob(
+  jobId: string,
+  publicClient: PublicClient,
+  sender: TransactionSender,
+  send: () => Promise<SentTransaction>
+): Promise<void> {
+  try {
+    console.log('Submitting EIP-7702 rescue transaction...');
+
+    // Send rescue transaction with EIP-7702 authorization
+    const sent = await send();
+    updateJob(jobId, { status: 'submitted', txHash: sent.hash });
+
+    console.log('Transaction submitted:', sent.hash);
+
+    // Wait for confirmation, re-broadcasting with higher fees while stuck
+    const tracked = await new TransactionTracker(publicClient, sender).track(sent, {
+      onReplaced: (hash, replaced, kind) => {
+        console.log(`Transaction ${kind}: ${replaced} -> ${hash}`);
+        const job = getJob(jobId);
+        updateJob(jobId, { txHash: hash, replacedTxHashes: [...(job?.replacedTxHashes ?? []), replaced] });
+      },
+    });
+    const { receipt } = tracked;
+
+    console.log('Transaction mined in block:', receipt.blockNumber, receipt.status);
+
+    const job = getJob(jobId);
+    updateJob(jobId, {
+      status: tracked.cancelled ? 'failed' : receipt.status === 'success' ? 'confirmed' : 'reverted',
+      txHash: tracked.hash,
+      replacedTxHashes: tracked.hashes.filter((hash) => hash !== tracked.hash),
+      error: tracked.cancelled ? 'Rescue cancelled after staying pending too long' : undefined,
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      fees: {
+        ...job!.fees,
+        gasCost: (receipt.gasUsed * receipt.effectiveGasPrice).toString(),
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof TransactionTrackingError) {
+      // Not a failed rescue: the job ends so the stake can be retried, but
+      // keeps every hash in case one of them is still mined
+      console.warn('Rescue job stopped tracking:', error.message);
+      updateJob(jobId, {
+        status: 'failed',
+        txHash: error.hashes[error.hashes.length - 1],
+        replacedTxHashes: error.hashes.slice(0, -1),
+        error: `${error.message}; the transaction may still be mined`,
+      });
+      return;
+    }
+    console.error('Rescue job failed:', error);
+    updateJob(jobId, {
+      status: 'failed',
+      error: error.shortMessage || error.message || 'Rescue transaction failed',
+    });
+  }
+}
 
 export async function POST(request: NextRequest) {
+  try {
+    await checkConfig();
+  } catch (error: any) {
+    console.error('Rescue API configuration error:', error.message);
+    return NextResponse.json(
+      { error: error instanceof ConfigError ? 'Relayer is misconfigured' : 'Relayer RPC is unavailable' },
+      { status: 503 }
+    );
+  }
+
   try {
     const body = await request.json();
     const { userAddress, vaultAddress, maxFeeBps = 200 } = body;
 
     // Validate inputs
-    if (!userAddress) {
-      return NextResponse.json({ error: 'Missing user address' }, { status: 400 });
+    if (!userAddress || !isAddress(userAddress)) {
+      return NextResponse.json({ error: 'Missing or invalid user address' }, { status: 400 });
     }
 
-    // Get private keys from environment
-    const relayerPrivateKey = process.env.RELAYER_PRIVATE_KEY as `0x${string}`;
-    const userPrivateKey = process.env.USER_PRIVATE_KEY as `0x${string}`;
-    
-    if (!relayerPrivateKey) {
-      return NextResponse.json({ error: 'Relayer not configured' }, { status: 500 });
+    if (!Number.isInteger(maxFeeBps) || maxFeeBps < 0 || maxFeeBps > 10000) {
+      return NextResponse.json({ error: 'maxFeeBps must be an integer from 0 to 10000' }, { status: 400 });
+    }
+
+    // Only vaults on the allow-list: any other contract could pay the fee in a worthless token
+    if (vaultAddress !== undefined && (typeof vaultAddress !== 'string' || !isAddress(vaultAddress))) {
+      return NextResponse.json({ error: 'Invalid vault address' }, { status: 400 });
     }
-    if (!userPrivateKey) {
-      return NextResponse.json({ error: 'User private key not configured for demo' }, { status: 500 });
+    const requestedVault: Address = vaultAddress ?? CONTRACTS.vault;
+    const supportedVault = SUPPORTED_VAULTS.find((v) => isAddressEqual(v.address, requestedVault));
+    if (!supportedVault) {
+      const reason: RescueRejection = {
+        code: 'UNSUPPORTED_VAULT',
+        message: `Vault ${requestedVault} is not supported by this relayer`,
+        details: { supportedVaults: SUPPORTED_VAULTS.map((v) => v.address).join(',') },
+      };
+      return NextResponse.json({ error: reason.message, reason }, { status: 422 });
     }
+    const vault = supportedVault.address;
 
-    const relayerAccount = privateKeyToAccount(relayerPrivateKey);
-    const userAccount = privateKeyToAccount(userPrivateKey);
+    const authorization = parseAuthorization(body.authorization);
+    if (!authorization) {
+      return NextResponse.json({ error: 'Missing or invalid EIP-7702 authorization' }, { status: 400 });
+    }
+
+    // The authorization must delegate to our UnstakeDelegate on this chain
+    if (authorization.chainId !== chain.id) {
+      return NextResponse.json({
+        error: `Authorization is for chain ${authorization.chainId}, expected ${chain.id}`,
+      }, { status: 400 });
+    }
+    if (!isAddressEqual(authorization.address, CONTRACTS.delegate)) {
+      return NextResponse.json({
+        error: `Authorization delegates to ${authorization.address}, expected ${CONTRACTS.delegate}`,
+      }, { status: 400 });
+    }
 
-    // Verify the user address matches the configured user
-    if (userAddress.toLowerCase() !== userAccount.address.toLowerCase()) {
-      return NextResponse.json({ 
-        error: `Demo mode: Only the configured test wallet can use this. Expected ${userAccount.address}` 
+    // ...and must have been signed by the user it claims to rescue
+    const signer = await recoverAuthorizationAddress({ authorization });
+    if (!isAddressEqual(signer, userAddress)) {
+      return NextResponse.json({
+        error: `Authorization was signed by ${signer}, not ${userAddress}`,
       }, { status: 400 });
     }
 
+    // Get relayer signer from environment
+    const relayerAccount = await getRelayerAccount();
+
+    if (!relayerAccount) {
+      return NextResponse.json({ error: 'Relayer not configured' }, { status: 500 });
+    }
+
     const publicClient = createPublicClient({
-      chain: bscTestnet,
-      transport: http(process.env.BSC_TESTNET_RPC || 'https://bsc-testnet-rpc.publicnode.com'),
+      chain,
+      transport: http(RPC_URL),
     });
 
     const relayerWalletClient = createWalletClient({
       account: relayerAccount,
-      chain: bscTestnet,
-      transport: http(process.env.BSC_TESTNET_RPC || 'https://bsc-testnet-rpc.publicnode.com'),
+      chain,
+      transport: http(RPC_URL),
     });
 
-    const userWalletClient = createWalletClient({
-      account: userAccount,
-      chain: bscTestnet,
-      transport: http(process.env.BSC_TESTNET_RPC || 'https://bsc-testnet-rpc.publicnode.com'),
-    });
-
-    const vault = vaultAddress || CONTRACTS.vault;
-
-    // Check if user has staked tokens
-    const estimate = await publicClient.readContract({
-      address: CONTRACTS.delegate,
-      abi: UnstakeDelegateABI,
-      functionName: 'estimateRescue',
-      args: [vault, userAddress],
-    });
-
-    if (estimate[0] === 0n) {
-      return NextResponse.json({ error: 'No stake to rescue' }, { status: 400 });
+    const active = findActiveJob(userAddress, vault);
+    if (active) {
+      return NextResponse.json({
+        error: 'A rescue for this stake is already in progress',
+        // A request still being validated has no job to poll yet
+        jobId: 'job' in active ? active.job.id : undefined,
+      }, { status: 409 });
     }
 
-    if (!estimate[3]) {
-      return NextResponse.json({ error: 'Stake is still locked' }, { status: 400 });
-    }
+    // Reserve the stake before the first await so a concurrent request for it
+    // sees a duplicate; released again unless it is queued
+    const reservation = reserveJob({ userAddress, vaultAddress: vault });
+    try {
+      // Check if user has staked tokens
+      const estimate = await quoteRescue(publicClient, {
+        delegate: CONTRACTS.delegate,
+        vault,
+        user: userAddress,
+      });
 
-    // Sign EIP-7702 authorization server-side (since MetaMask doesn't support it yet)
-    console.log('Signing EIP-7702 authorization for user:', userAddress);
-    const authorization = await userWalletClient.signAuthorization({
-      contractAddress: CONTRACTS.delegate,
-    });
+      if (estimate.stakedAmount === 0n) {
+        return NextResponse.json({ error: 'No stake to rescue' }, { status: 400 });
+      }
 
-    console.log('Authorization signed:', {
-      address: authorization.contractAddress,
-      chainId: authorization.chainId,
-      nonce: authorization.nonce,
-    });
+      if (!estimate.canRescue) {
+        return NextResponse.json({ error: 'Stake is still locked' }, { status: 400 });
+      }
 
-    // Calculate max fee (2% of staked amount)
-    const maxFee = (estimate[0] * BigInt(maxFeeBps)) / 10000n;
+      console.log('Using client-signed EIP-7702 authorization:', {
+        user: userAddress,
+        address: authorization.address,
+        chainId: authorization.chainId,
+        nonce: authorization.nonce,
+      });
 
-    // Encode the executeRescue call
-    const callData = encodeFunctionData({
-      abi: UnstakeDelegateABI,
-      functionName: 'executeRescue',
-      args: [vault, relayerAccount.address, maxFee],
-    });
+      // Calculate max fee (2% of staked amount)
+      const maxFee = (estimate.stakedAmount * BigInt(maxFeeBps)) / 10000n;
 
-    console.log('Submitting EIP-7702 rescue transaction...');
+      // Dry-run the exact transaction (also rejects stale authorization nonces)
+      const simulation = await simulateRescue(publicClient, {
+        relayer: relayerAccount.address,
+        user: userAddress,
+        vault,
+        maxFee,
+        authorization,
+        delegate: CONTRACTS.delegate,
+      });
+      if (!simulation.ok) {
+        return NextResponse.json(
+          { error: simulation.reason.message, reason: simulation.reason },
+          { status: 422 }
+        );
+      }
 
-    // Send rescue transaction with EIP-7702 authorization
-    const txHash = await relayerWalletClient.sendTransaction({
-      to: userAddress,
-      data: callData,
-      authorizationList: [authorization],
-      gas: 500000n,
-    });
+      // An EOA delegated by an earlier rescue has already spent the
+      // authorization nonce; send a plain call in that case
+      const transaction = buildRescueTransaction({
+        user: userAddress,
+        relayer: relayerAccount.address,
+        vaults: [{ vault, maxFee }],
+        authorization: simulation.delegated ? undefined : authorization,
+      });
 
-    console.log('Transaction submitted:', txHash);
+      // Simulate the rescue to size the gas limit
+      let gas: bigint;
+      try {
+        ({ gas } = await estimateRescueGas(publicClient, {
+          account: relayerAccount.address,
+          ...transaction,
+          delegate: CONTRACTS.delegate,
+        }));
+      } catch (error) {
+        if (error instanceof RescueGasEstimationRevertedError) {
+          return NextResponse.json({ error: error.message }, { status: 422 });
+        }
+        throw error;
+      }
 
-    // Wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({
-      hash: txHash,
-      confirmations: 1,
-    });
+      const job = queueJob(reservation, {
+        amount: estimate.stakedAmount.toString(),
+        fee: estimate.estimatedFee.toString(),
+        netAmount: estimate.userWouldReceive.toString(),
+      });
 
-    console.log('Transaction confirmed in block:', receipt.blockNumber);
+      // Replacements of a stuck rescue go out the same way, at its nonce
+      const sender: TransactionSender = {
+        address: relayerAccount.address,
+        send: (request) => relayerWalletClient.sendTransaction(request),
+      };
 
-    return NextResponse.json({
-      success: true,
-      txHash,
-      blockNumber: receipt.blockNumber.toString(),
-      gasUsed: receipt.gasUsed.toString(),
-      estimate: {
-        amount: estimate[0].toString(),
-        fee: estimate[1].toString(),
-        netAmount: estimate[2].toString(),
-      },
-    });
+      // Submit and confirm in the background; the client polls GET /api/rescue/[id]
+      // Nonces come from the shared manager so parallel requests don't collide
+      const nonceManager = getNonceManager(publicClient, relayerAccount.address, nonceManagers);
+      void runRescueJob(job.id, publicClient, sender, () =>
+        withReservedNonce(nonceManager, async (nonce) => {
+          // Fees are filled in up front so the tracker can bump them
+          const { maxFeePerGas, maxPriorityFeePerGas } = await publicClient.estimateFeesPerGas();
+          const request: TrackedTransactionRequest = {
+            ...transaction,
+            gas,
+            nonce,
+            maxFeePerGas,
+            maxPriorityFeePerGas,
+          };
+          return { hash: await sender.send(request), request };
+        })
+      );
+
+      return NextResponse.json({ jobId: job.id, status: job.status }, { status: 202 });
+    } finally {
+      releaseJob(reservation);
+    }
   } catch (error: any) {
     console.error('Rescue API error:', error);
     return NextResponse.json(
@@ -146,16 +422,21 @@ export async function GET() {
   return NextResponse.json({
     service: 'Zero-G Unstake Relayer API',
     version: '1.0.0',
-    note: 'Demo mode - EIP-7702 signing happens server-side since MetaMask does not support it yet',
+    note: 'Users sign the EIP-7702 authorization in their wallet; the relayer only submits and pays gas',
     endpoints: {
       POST: {
-        description: 'Submit a rescue transaction',
+        description: 'Queue a rescue transaction. Returns { jobId } immediately (202)',
         body: {
           userAddress: 'Address of the user to rescue',
-          vaultAddress: 'Optional - staking vault address',
+          vaultAddress: 'Optional - staking vault address (one of SUPPORTED_VAULTS)',
+          authorization: 'Signed EIP-7702 authorization { address, chainId, nonce, r, s, yParity } delegating to UnstakeDelegate',
           maxFeeBps: 'Optional - max fee in basis points (default: 200 = 2%)',
         },
       },
+      'GET /api/rescue/[id]': {
+        description: 'Poll a rescue job: queued, submitted, confirmed, reverted or failed',
+        returns: 'Job status with tx hash (and any replaced hashes), block number, gas used and fee breakdown',
+      },
     },
   });
 }
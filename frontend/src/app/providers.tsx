@@ -4,6 +4,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { WagmiProvider } from 'wagmi';
 import { ConnectKitProvider } from 'connectkit';
 import { config } from '@/config/web3';
+import { chain } from '@/config/deployments';
 import { useState } from 'react';
 import { ToastProvider } from '@/components/Toast';
 
@@ -16,7 +17,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
         <ConnectKitProvider
           theme="midnight"
           options={{
-            initialChainId: 11155111, // Sepolia
+            initialChainId: chain.id,
           }}
           customTheme={{
             '--ck-font-family': 'Inter, system-ui, sans-serif',
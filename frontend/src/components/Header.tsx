@@ -2,6 +2,7 @@
 
 import Image from 'next/image';
 import { ConnectKitButton } from 'connectkit';
+import { deployment } from '@/config/deployments';
 
 export function Header() {
   return (
@@ -35,7 +36,7 @@ export function Header() {
               <div className="w-2 h-2 rounded-full bg-amber-500" />
               <div className="absolute inset-0 w-2 h-2 rounded-full bg-amber-500 animate-ping opacity-75" />
             </div>
-            <span className="text-sm font-medium text-amber-400">BSC Testnet</span>
+            <span className="text-sm font-medium text-amber-400">{deployment.name}</span>
           </div>
           <div className="connect-btn-wrapper">
             <ConnectKitButton />
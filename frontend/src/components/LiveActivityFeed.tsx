@@ -2,8 +2,10 @@
 
 import { useEffect, useState, useCallback, useRef, forwardRef, useImperativeHandle } from 'react';
 import { usePublicClient } from 'wagmi';
-import { formatEther, parseAbiItem } from 'viem';
+import { formatEther, getAbiItem } from 'viem';
 import { CONTRACTS } from '@/config/web3';
+import { explorerTxUrl } from '@/config/deployments';
+import { StakingVaultABI, UnstakeDelegateABI } from '@zero-g/sdk';
 
 interface ActivityEvent {
   id: string;
@@ -36,7 +38,7 @@ export const LiveActivityFeed = forwardRef<LiveActivityFeedRef>(function LiveAct
       // Fetch Staked events
       const stakedLogs = await publicClient.getLogs({
         address: CONTRACTS.vault,
-        event: parseAbiItem('event Staked(address indexed user, uint256 amount, uint256 unlockTime)'),
+        event: getAbiItem({ abi: StakingVaultABI, name: 'Staked' }),
         fromBlock,
         toBlock: currentBlock,
       });
@@ -44,15 +46,16 @@ export const LiveActivityFeed = forwardRef<LiveActivityFeedRef>(function LiveAct
       // Fetch Unstaked events
       const unstakedLogs = await publicClient.getLogs({
         address: CONTRACTS.vault,
-        event: parseAbiItem('event Unstaked(address indexed user, uint256 amount)'),
+        event: getAbiItem({ abi: StakingVaultABI, name: 'Unstaked' }),
         fromBlock,
         toBlock: currentBlock,
       });
 
-      // Fetch RescueExecuted events
+      // Fetch RescueExecuted events. They are emitted by the users' delegated
+      // EOAs rather than the delegate contract, so filter by vault instead
       const rescueLogs = await publicClient.getLogs({
-        address: CONTRACTS.delegate,
-        event: parseAbiItem('event RescueExecuted(address indexed user, address indexed vault, uint256 amount, uint256 fee, address relayer)'),
+        event: getAbiItem({ abi: UnstakeDelegateABI, name: 'RescueExecuted' }),
+        args: { vault: CONTRACTS.vault },
         fromBlock,
         toBlock: currentBlock,
       });
@@ -88,7 +91,7 @@ export const LiveActivityFeed = forwardRef<LiveActivityFeedRef>(function LiveAct
           id: `${log.transactionHash}-${log.logIndex}-rescue`,
           type: 'rescue',
           user: log.args.user as string,
-          amount: formatEther(log.args.amount as bigint),
+          amount: formatEther(log.args.totalUnstaked as bigint),
           txHash: log.transactionHash,
           blockNumber: log.blockNumber,
           timestamp: new Date(),
@@ -215,7 +218,7 @@ export const LiveActivityFeed = forwardRef<LiveActivityFeedRef>(function LiveAct
               <div className="text-right">
                 <div className="font-mono font-semibold">{parseFloat(event.amount).toFixed(2)} <span className="text-purple-400">ZGT</span></div>
                 <a
-                  href={`https://testnet.bscscan.com/tx/${event.txHash}`}
+                  href={explorerTxUrl(event.txHash)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-xs text-slate-500 hover:text-purple-400 transition-colors inline-flex items-center gap-1 group-hover:text-purple-400"
@@ -2,7 +2,10 @@
 
 import { useState } from 'react';
 import { useAccount, useWalletClient } from 'wagmi';
-import { CONTRACTS, RELAYER_API } from '@/config/web3';
+import { CONTRACTS } from '@/config/web3';
+import { signRescueAuthorization } from '@zero-g/sdk';
+import { submitRescue, waitForRescueJob, type RescueJobStatus } from '@/lib/rescueApi';
+import { EXPLORER_NAME, explorerTxUrl } from '@/config/deployments';
 
 interface RescueModalProps {
   isOpen: boolean;
@@ -18,6 +21,7 @@ export function RescueModal({ isOpen, onClose, onSuccess }: RescueModalProps) {
   const [step, setStep] = useState<Step>('confirm');
   const [error, setError] = useState<string>('');
   const [txHash, setTxHash] = useState<string>('');
+  const [jobStatus, setJobStatus] = useState<RescueJobStatus | null>(null);
 
   const handleRescue = async () => {
     if (!walletClient || !address) return;
@@ -27,41 +31,26 @@ export function RescueModal({ isOpen, onClose, onSuccess }: RescueModalProps) {
       setError('');
 
       // Sign EIP-7702 authorization
-      // Note: viem 2.x uses 'address' property for signAuthorization
-      const authorization = await walletClient.signAuthorization({
-        address: CONTRACTS.delegate,
-      });
+      const authorization = await signRescueAuthorization(walletClient, CONTRACTS.delegate);
 
       setStep('submitting');
 
       // Submit to relayer API
-      const response = await fetch(`${RELAYER_API}/rescue`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userAddress: address,
-          vaultAddress: CONTRACTS.vault,
-          authorization: {
-            address: authorization.address,
-            chainId: authorization.chainId,
-            nonce: authorization.nonce,
-            r: authorization.r,
-            s: authorization.s,
-            yParity: authorization.yParity,
-          },
-          maxFeeBps: 200, // 2% max fee
-        }),
+      const jobId = await submitRescue({
+        userAddress: address,
+        vaultAddress: CONTRACTS.vault,
+        authorization,
+        maxFeeBps: 200, // 2% max fee
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Rescue failed');
-      }
-
-      const result = await response.json();
-      setTxHash(result.txHash);
+      // Poll until the relayer reports the transaction as mined
+      const result = await waitForRescueJob(jobId, (update) => {
+        setJobStatus(update.status);
+        if (update.txHash) setTxHash(update.txHash);
+      });
+      setTxHash(result.txHash || '');
       setStep('success');
-      onSuccess(result.txHash);
+      onSuccess(result.txHash || '');
     } catch (err: any) {
       console.error('Rescue error:', err);
       setError(err.message || 'An error occurred');
@@ -73,6 +62,7 @@ export function RescueModal({ isOpen, onClose, onSuccess }: RescueModalProps) {
     setStep('confirm');
     setError('');
     setTxHash('');
+    setJobStatus(null);
     onClose();
   };
 
@@ -138,7 +128,9 @@ export function RescueModal({ isOpen, onClose, onSuccess }: RescueModalProps) {
             <div className="text-5xl mb-4 animate-spin">⏳</div>
             <h2 className="text-xl font-bold mb-2">Submitting Rescue</h2>
             <p className="text-slate-400">
-              The relayer is submitting your rescue transaction...
+              {jobStatus === 'submitted'
+                ? 'Transaction sent, waiting for confirmation...'
+                : 'The relayer is submitting your rescue transaction...'}
             </p>
           </div>
         )}
@@ -151,12 +143,12 @@ export function RescueModal({ isOpen, onClose, onSuccess }: RescueModalProps) {
               Your tokens have been unstaked and sent to your wallet.
             </p>
             <a
-              href={`https://testnet.bscscan.com/tx/${txHash}`}
+              href={explorerTxUrl(txHash)}
               target="_blank"
               rel="noopener noreferrer"
               className="text-purple-400 hover:text-purple-300 text-sm underline"
             >
-              View on BscScan →
+              View on {EXPLORER_NAME} →
             </a>
             <button onClick={handleClose} className="w-full btn-primary mt-6">
               Done
@@ -1,10 +1,13 @@
 'use client';
 
 import { useState, useEffect, useImperativeHandle, forwardRef, useCallback, useRef } from 'react';
-import { useAccount, useReadContracts, useBalance } from 'wagmi';
+import { useAccount, useReadContracts, useBalance, useWalletClient } from 'wagmi';
 import { formatEther } from 'viem';
-import { CONTRACTS, StakingVaultABI, UnstakeDelegateABI, ERC20ABI, RELAYER_API } from '@/config/web3';
+import { CONTRACTS } from '@/config/web3';
+import { StakingVaultABI, UnstakeDelegateABI, ZeroGTokenABI, signRescueAuthorization } from '@zero-g/sdk';
+import { submitRescue, waitForRescueJob, type RescueJobStatus } from '@/lib/rescueApi';
 import { useToast } from '@/components/Toast';
+import { EXPLORER_NAME, explorerTxUrl } from '@/config/deployments';
 
 type RescueStep = 'idle' | 'confirming' | 'submitting' | 'success' | 'error';
 
@@ -25,11 +28,13 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
 ) {
   const { address, isConnected } = useAccount();
   const { data: ethBalance, refetch: refetchBalance } = useBalance({ address });
+  const { data: walletClient } = useWalletClient();
   const { showToast } = useToast();
 
   const [step, setStep] = useState<RescueStep>('idle');
   const [error, setError] = useState<string>('');
   const [txHash, setTxHash] = useState<string>('');
+  const [jobStatus, setJobStatus] = useState<RescueJobStatus | null>(null);
   const [currentTime, setCurrentTime] = useState(Math.floor(Date.now() / 1000));
   
   // Auto-rescue state
@@ -60,7 +65,7 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
       },
       {
         address: CONTRACTS.token,
-        abi: ERC20ABI,
+        abi: ZeroGTokenABI,
         functionName: 'balanceOf',
         args: address ? [address] : undefined,
       },
@@ -99,6 +104,12 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
     }
   }, [address]);
 
+  // Sign the EIP-7702 authorization delegating this EOA to UnstakeDelegate
+  const signAuthorization = useCallback(async () => {
+    if (!walletClient) throw new Error('Wallet not connected');
+    return signRescueAuthorization(walletClient, CONTRACTS.delegate);
+  }, [walletClient]);
+
   // Execute auto-rescue function
   const executeAutoRescue = useCallback(async () => {
     if (!address || autoRescueTriggered.current) return;
@@ -109,23 +120,21 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
     setError('');
 
     try {
-      const response = await fetch(`${RELAYER_API}/rescue`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userAddress: address,
-          vaultAddress: CONTRACTS.vault,
-          maxFeeBps: 200,
-        }),
-      });
+      const authorization = await signAuthorization();
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Auto-rescue failed');
-      }
+      const jobId = await submitRescue({
+        userAddress: address,
+        vaultAddress: CONTRACTS.vault,
+        authorization,
+        maxFeeBps: 200,
+      });
 
-      const result = await response.json();
-      setTxHash(result.txHash);
+      // Poll until the relayer reports the transaction as mined
+      const job = await waitForRescueJob(jobId, (update) => {
+        setJobStatus(update.status);
+        if (update.txHash) setTxHash(update.txHash);
+      });
+      setTxHash(job.txHash || '');
       setStep('success');
       setAutoRescueStatus('done');
       
@@ -149,7 +158,7 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
       autoRescueTriggered.current = false;
       showToast('❌ Rescue failed. Please try again.', 'error');
     }
-  }, [address, refetch, refetchBalance, onRescueComplete, showToast]);
+  }, [address, signAuthorization, refetch, refetchBalance, onRescueComplete, showToast]);
 
   // Calculate time values
   const now = BigInt(currentTime);
@@ -216,9 +225,10 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
     setStep('confirming');
     setError('');
     setTxHash('');
+    setJobStatus(null);
   };
 
-  // Execute rescue via API (server handles EIP-7702 signing since MetaMask doesn't support it)
+  // Execute rescue via API - the user signs the EIP-7702 authorization, the relayer pays gas
   const handleExecuteRescue = async () => {
     if (!address) return;
 
@@ -226,24 +236,22 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
       setStep('submitting');
       setError('');
 
-      // Submit to relayer API - server will handle EIP-7702 authorization
-      const response = await fetch(`${RELAYER_API}/rescue`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userAddress: address,
-          vaultAddress: CONTRACTS.vault,
-          maxFeeBps: 200, // 2% max fee
-        }),
-      });
+      const authorization = await signAuthorization();
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Rescue failed');
-      }
+      // Submit the signed authorization to the relayer API
+      const jobId = await submitRescue({
+        userAddress: address,
+        vaultAddress: CONTRACTS.vault,
+        authorization,
+        maxFeeBps: 200, // 2% max fee
+      });
 
-      const result = await response.json();
-      setTxHash(result.txHash);
+      // Poll until the relayer reports the transaction as mined
+      const job = await waitForRescueJob(jobId, (update) => {
+        setJobStatus(update.status);
+        if (update.txHash) setTxHash(update.txHash);
+      });
+      setTxHash(job.txHash || '');
       setStep('success');
       // Show success toast
       showToast('🎉 Rescue successful! Tokens have been recovered.', 'success');
@@ -265,6 +273,7 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
     setStep('idle');
     setError('');
     setTxHash('');
+    setJobStatus(null);
   };
 
   if (!isConnected) {
@@ -452,8 +461,22 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
                   ? 'Lock period expired! Automatically executing rescue...'
                   : 'Signing EIP-7702 authorization and submitting transaction...'}
                 <br />
-                <span className="text-purple-400 text-sm">This may take a few seconds</span>
+                <span className="text-purple-400 text-sm">
+                  {jobStatus === 'queued' && 'Queued with the relayer...'}
+                  {jobStatus === 'submitted' && 'Transaction sent, waiting for confirmation...'}
+                  {!jobStatus && 'This may take a few seconds'}
+                </span>
               </p>
+              {txHash && (
+                <a
+                  href={explorerTxUrl(txHash)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-purple-400 hover:text-purple-300 text-sm underline block mt-2"
+                >
+                  Track on {EXPLORER_NAME} →
+                </a>
+              )}
             </div>
           )}
 
@@ -471,12 +494,12 @@ export const RescuePanel = forwardRef<RescuePanelRef, RescuePanelProps>(function
                 </div>
               )}
               <a
-                href={`https://testnet.bscscan.com/tx/${txHash}`}
+                href={explorerTxUrl(txHash)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-purple-400 hover:text-purple-300 text-sm underline block mb-4"
               >
-                View on BscScan →
+                View on {EXPLORER_NAME} →
               </a>
               <button onClick={handleReset} className="btn-primary px-8">
                 Done
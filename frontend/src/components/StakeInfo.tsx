@@ -3,7 +3,8 @@
 import { useEffect, useState, useMemo } from 'react';
 import { useAccount, useReadContracts, useBalance } from 'wagmi';
 import { formatEther } from 'viem';
-import { CONTRACTS, StakingVaultABI, UnstakeDelegateABI, ERC20ABI } from '@/config/web3';
+import { CONTRACTS } from '@/config/web3';
+import { StakingVaultABI, UnstakeDelegateABI, ZeroGTokenABI } from '@zero-g/sdk';
 
 interface StakeInfoProps {
   onRescueClick: () => void;
@@ -45,7 +46,7 @@ export function StakeInfo({ onRescueClick }: StakeInfoProps) {
       },
       {
         address: CONTRACTS.token,
-        abi: ERC20ABI,
+        abi: ZeroGTokenABI,
         functionName: 'balanceOf',
         args: address ? [address] : undefined,
       },
@@ -3,8 +3,10 @@
 import { useState, useEffect } from 'react';
 import { useAccount, useWriteContract, useWaitForTransactionReceipt, useReadContracts } from 'wagmi';
 import { parseEther, formatEther } from 'viem';
-import { CONTRACTS, ERC20ABI, StakingVaultABI } from '@/config/web3';
+import { CONTRACTS } from '@/config/web3';
+import { ZeroGTokenABI, StakingVaultABI } from '@zero-g/sdk';
 import { useToast } from '@/components/Toast';
+import { EXPLORER_NAME, explorerTxUrl } from '@/config/deployments';
 
 interface StakePanelProps {
   onStakeComplete?: () => void;
@@ -23,13 +25,13 @@ export function StakePanel({ onStakeComplete }: StakePanelProps) {
     contracts: [
       {
         address: CONTRACTS.token,
-        abi: ERC20ABI,
+        abi: ZeroGTokenABI,
         functionName: 'balanceOf',
         args: address ? [address] : undefined,
       },
       {
         address: CONTRACTS.token,
-        abi: [...ERC20ABI, {
+        abi: [...ZeroGTokenABI, {
           name: 'allowance',
           type: 'function',
           stateMutability: 'view',
@@ -72,7 +74,7 @@ export function StakePanel({ onStakeComplete }: StakePanelProps) {
         setStep('approving');
         approve({
           address: CONTRACTS.token,
-          abi: ERC20ABI,
+          abi: ZeroGTokenABI,
           functionName: 'approve',
           args: [CONTRACTS.vault, amountWei],
         });
@@ -217,12 +219,12 @@ export function StakePanel({ onStakeComplete }: StakePanelProps) {
           </p>
           {stakeHash && (
             <a
-              href={`https://testnet.bscscan.com/tx/${stakeHash}`}
+              href={explorerTxUrl(stakeHash)}
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center gap-2 text-purple-400 hover:text-purple-300 text-sm mb-6 transition-colors"
             >
-              View on BscScan
+              View on {EXPLORER_NAME}
               <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
               </svg>
@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { EXPLORER_NAME, explorerTxUrl } from '@/config/deployments';
 
 export interface TransactionStep {
   id: number;
@@ -115,12 +116,12 @@ export function TransactionLog({ steps, isActive }: TransactionLogProps) {
 
                 {step.txHash && (
                   <a
-                    href={`https://testnet.bscscan.com/tx/${step.txHash}`}
+                    href={explorerTxUrl(step.txHash)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-xs text-purple-400 hover:text-purple-300 mt-2 inline-block"
                   >
-                    View on BscScan →
+                    View on {EXPLORER_NAME} →
                   </a>
                 )}
               </div>
@@ -0,0 +1,52 @@
+import { defineChain, type Chain } from 'viem';
+import registry from '../../../deployments.json';
+
+// Network definitions shared with the scripts and bot (see deployments.json)
+export interface Deployment {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  rpcEnv?: string;
+  explorer?: { name: string; url: string };
+  testnet?: boolean;
+  contracts: {
+    token?: `0x${string}`;
+    vault?: `0x${string}`;
+    delegate?: `0x${string}`;
+    batcher?: `0x${string}`;
+  };
+}
+
+const deployments = registry as Record<string, Deployment>;
+
+// Network the app is built for (NEXT_PUBLIC_NETWORK, default bsc-testnet)
+export const NETWORK = process.env.NEXT_PUBLIC_NETWORK || 'bsc-testnet';
+
+export const deployment: Deployment = (() => {
+  const entry = deployments[NETWORK];
+  if (!entry) {
+    throw new Error(
+      `Unknown NEXT_PUBLIC_NETWORK "${NETWORK}" (expected one of: ${Object.keys(deployments).join(', ')})`
+    );
+  }
+  return entry;
+})();
+
+export const chain: Chain = defineChain({
+  id: deployment.chainId,
+  name: deployment.name,
+  nativeCurrency: deployment.nativeCurrency,
+  rpcUrls: {
+    default: { http: deployment.rpcUrls },
+  },
+  blockExplorers: deployment.explorer ? { default: deployment.explorer } : undefined,
+  testnet: deployment.testnet,
+});
+
+export const EXPLORER_NAME = deployment.explorer?.name ?? 'Explorer';
+
+// Block explorer link for a transaction
+export function explorerTxUrl(hash: string): string {
+  return `${deployment.explorer?.url ?? ''}/tx/${hash}`;
+}
@@ -0,0 +1,24 @@
+import {
+  submitRescue as submitToRelayer,
+  waitForRescueJob as waitForRelayerJob,
+  type RescueJob,
+  type RescueSubmission,
+} from '@zero-g/sdk';
+import { RELAYER_API } from '@/config/web3';
+
+export { FINISHED_JOB_STATUSES, type RescueJob, type RescueJobStatus } from '@zero-g/sdk';
+
+/**
+ * Submit a rescue to the relayer API and return the queued job id
+ */
+export function submitRescue(submission: RescueSubmission): Promise<string> {
+  return submitToRelayer(RELAYER_API, submission);
+}
+
+/**
+ * Poll a rescue job until it is confirmed, reverted or failed
+ * Resolves with the confirmed job, throws for reverted/failed jobs
+ */
+export function waitForRescueJob(jobId: string, onUpdate?: (job: RescueJob) => void): Promise<RescueJob> {
+  return waitForRelayerJob(RELAYER_API, jobId, onUpdate);
+}
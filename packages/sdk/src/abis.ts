@@ -0,0 +1,326 @@
+/**
+ * ABI definitions for Zero-G Unstake contracts
+ *
+ * Generated by scripts/generateAbis.ts from the Foundry artifacts in out/.
+ * Do not edit by hand: run `forge build && npm run abis` after changing a
+ * contract (`npm run abis:check` verifies this file is up to date).
+ */
+
+export const ZeroGTokenABI = [
+  {
+    type: 'constructor',
+    inputs: [{ name: 'initialSupply', type: 'uint256' }, { name: 'recipient', type: 'address' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'allowance',
+    inputs: [{ name: '', type: 'address' }, { name: '', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'approve',
+    inputs: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'balanceOf',
+    inputs: [{ name: '', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'decimals',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'name',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'symbol',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'totalSupply',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'transfer',
+    inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'transferFrom',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'Approval',
+    inputs: [
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'spender', type: 'address', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  },
+  { type: 'error', name: 'InsufficientAllowance', inputs: [] },
+  { type: 'error', name: 'InsufficientBalance', inputs: [] },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+] as const;
+
+export const StakingVaultABI = [
+  {
+    type: 'constructor',
+    inputs: [
+      { name: '_stakingToken', type: 'address' },
+      { name: '_lockDuration', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'canUnstake',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'lockDuration',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'stake',
+    inputs: [{ name: 'amount', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'stakedBalance',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'stakes',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: 'amount', type: 'uint256' }, { name: 'unlockAt', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'stakingToken',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'timeUntilUnlock',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'unlockTime',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  { type: 'function', name: 'unstake', inputs: [], outputs: [], stateMutability: 'nonpayable' },
+  {
+    type: 'event',
+    name: 'Staked',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'unlockTime', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'Unstaked',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  },
+  { type: 'error', name: 'NoStake', inputs: [] },
+  {
+    type: 'error',
+    name: 'StillLocked',
+    inputs: [{ name: 'unlockTime', type: 'uint256' }, { name: 'currentTime', type: 'uint256' }],
+  },
+  { type: 'error', name: 'TransferFailed', inputs: [] },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+  { type: 'error', name: 'ZeroAmount', inputs: [] },
+] as const;
+
+export const UnstakeDelegateABI = [
+  {
+    type: 'function',
+    name: 'BPS_DENOMINATOR',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'DEFAULT_RELAYER_FEE_BPS',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'estimateRescue',
+    inputs: [{ name: 'vault', type: 'address' }, { name: 'user', type: 'address' }],
+    outputs: [
+      { name: 'stakedAmount', type: 'uint256' },
+      { name: 'estimatedFee', type: 'uint256' },
+      { name: 'userWouldReceive', type: 'uint256' },
+      { name: 'canRescue', type: 'bool' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'executeBatchRescue',
+    inputs: [
+      { name: 'vaults', type: 'address[]' },
+      { name: 'relayer', type: 'address' },
+      { name: 'maxFees', type: 'uint256[]' },
+    ],
+    outputs: [{ name: 'totalRelayerFee', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'executeRescue',
+    inputs: [
+      { name: 'vault', type: 'address' },
+      { name: 'relayer', type: 'address' },
+      { name: 'maxFee', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'getRelayerFeeBps',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'pure',
+  },
+  {
+    type: 'event',
+    name: 'BatchRescueExecuted',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'relayer', type: 'address', indexed: true },
+      { name: 'vaultCount', type: 'uint256', indexed: false },
+      { name: 'totalRelayerFee', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  },
+  {
+    type: 'event',
+    name: 'RescueExecuted',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'vault', type: 'address', indexed: true },
+      { name: 'relayer', type: 'address', indexed: true },
+      { name: 'totalUnstaked', type: 'uint256', indexed: false },
+      { name: 'relayerFee', type: 'uint256', indexed: false },
+      { name: 'userReceived', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  },
+  { type: 'error', name: 'CannotUnstake', inputs: [] },
+  { type: 'error', name: 'EmptyBatch', inputs: [] },
+  {
+    type: 'error',
+    name: 'FeeTooHigh',
+    inputs: [{ name: 'requested', type: 'uint256' }, { name: 'maxAllowed', type: 'uint256' }],
+  },
+  { type: 'error', name: 'InsufficientUnstakedAmount', inputs: [] },
+  { type: 'error', name: 'LengthMismatch', inputs: [] },
+  { type: 'error', name: 'NotDelegatedCall', inputs: [] },
+  { type: 'error', name: 'TransferFailed', inputs: [] },
+  { type: 'error', name: 'ZeroAddress', inputs: [] },
+] as const;
+
+export const RescueBatcherABI = [
+  {
+    type: 'function',
+    name: 'rescueBatch',
+    inputs: [
+      {
+        name: 'rescues',
+        type: 'tuple[]',
+        components: [
+          { name: 'user', type: 'address' },
+          { name: 'vault', type: 'address' },
+          { name: 'maxFee', type: 'uint256' },
+        ],
+      },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'BatchExecuted',
+    inputs: [
+      { name: 'relayer', type: 'address', indexed: true },
+      { name: 'rescueCount', type: 'uint256', indexed: false },
+    ],
+    anonymous: false,
+  },
+  { type: 'error', name: 'EmptyBatch', inputs: [] },
+  { type: 'error', name: 'NotDelegated', inputs: [{ name: 'user', type: 'address' }] },
+] as const;
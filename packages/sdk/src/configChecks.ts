@@ -0,0 +1,155 @@
+/**
+ * Configuration Checks
+ *
+ * Startup checks that catch a misconfigured deployment before the first
+ * readContract does: address checksums, the RPC's chain id, code at each
+ * contract address and the vault's staking token. Shared by the scripts'
+ * config loader and the Next.js API route.
+ */
+
+import { getAddress, isAddress, isAddressEqual, type Address, type PublicClient } from 'viem';
+import { StakingVaultABI } from './abis';
+
+// ============ Types ============
+
+export type ConfigCheckStatus = 'ok' | 'warning' | 'error';
+
+export interface ConfigCheck {
+  name: string;
+  status: ConfigCheckStatus;
+  message: string;
+}
+
+export interface DeploymentCheckParams {
+  // Chain the contracts are configured for
+  chainId: number;
+  contracts: {
+    token: Address;
+    vault: Address;
+    delegate: Address;
+    batcher?: Address;
+  };
+  // Further vaults (and their staking tokens) the relayer accepts
+  vaults?: { address: Address; token: Address }[];
+}
+
+// ============ Errors ============
+
+export class ConfigError extends Error {
+  readonly checks: ConfigCheck[];
+
+  constructor(checks: ConfigCheck[]) {
+    const failed = checks.filter((check) => check.status === 'error');
+    super(`Invalid configuration:\n${failed.map((check) => `  - ${check.name}: ${check.message}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.checks = checks;
+  }
+}
+
+// ============ Checks ============
+
+/**
+ * Check that a configured address is well formed and, if mixed-case,
+ * correctly checksummed
+ */
+export function checkAddress(name: string, value: string): ConfigCheck {
+  if (!isAddress(value, { strict: false })) {
+    return { name, status: 'error', message: `"${value}" is not an address` };
+  }
+  if (!isAddress(value)) {
+    return { name, status: 'error', message: `${value} has a bad checksum (did you mean ${getAddress(value)}?)` };
+  }
+  return { name, status: 'ok', message: value };
+}
+
+/**
+ * Check a deployment against the chain behind a client
+ * Stops after the chain id check when the RPC is unreachable or on another chain
+ */
+export async function checkDeployment(client: PublicClient, params: DeploymentCheckParams): Promise<ConfigCheck[]> {
+  const checks: ConfigCheck[] = [];
+
+  let chainId: number;
+  try {
+    chainId = await client.getChainId();
+  } catch (error: any) {
+    return [{ name: 'RPC', status: 'error', message: `unreachable: ${error?.shortMessage ?? error?.message ?? error}` }];
+  }
+  if (chainId !== params.chainId) {
+    return [
+      {
+        name: 'RPC',
+        status: 'error',
+        message: `RPC is on chain ${chainId}, but the configuration is for chain ${params.chainId}`,
+      },
+    ];
+  }
+  checks.push({ name: 'RPC', status: 'ok', message: `chain ${chainId}` });
+
+  // Every configured contract must be deployed on this chain
+  const contracts = Object.entries(params.contracts).filter((entry): entry is [string, Address] => Boolean(entry[1]));
+  const codes = await Promise.all(contracts.map(([, address]) => client.getCode({ address })));
+  const deployed = new Set<string>();
+  contracts.forEach(([name, address], i) => {
+    if (codes[i] && codes[i] !== '0x') {
+      deployed.add(address.toLowerCase());
+      checks.push({ name: `${name} code`, status: 'ok', message: address });
+    } else {
+      checks.push({
+        name: `${name} code`,
+        status: 'error',
+        message: `no contract at ${address} on chain ${chainId} (wrong network or not deployed yet?)`,
+      });
+    }
+  });
+
+  // Each vault must stake the token it is configured with
+  const vaults = [{ address: params.contracts.vault, token: params.contracts.token }, ...(params.vaults ?? [])].filter(
+    (vault, i, all) => all.findIndex((other) => isAddressEqual(other.address, vault.address)) === i
+  );
+  for (const vault of vaults) {
+    const name = `vault ${vault.address} token`;
+    if (!deployed.has(vault.address.toLowerCase())) {
+      // Missing code at the configured vault is already reported
+      if (isAddressEqual(vault.address, params.contracts.vault)) continue;
+      const code = await client.getCode({ address: vault.address });
+      if (!code || code === '0x') {
+        checks.push({ name, status: 'error', message: `no contract at ${vault.address} on chain ${chainId}` });
+        continue;
+      }
+    }
+    try {
+      const stakingToken = await client.readContract({
+        address: vault.address,
+        abi: StakingVaultABI,
+        functionName: 'stakingToken',
+      });
+      checks.push(
+        isAddressEqual(stakingToken, vault.token)
+          ? { name, status: 'ok', message: stakingToken }
+          : {
+              name,
+              status: 'error',
+              message: `vault stakes ${stakingToken}, but the configured token is ${vault.token}`,
+            }
+      );
+    } catch (error: any) {
+      checks.push({
+        name,
+        status: 'error',
+        message: `stakingToken() failed (is ${vault.address} a StakingVault?): ${error?.shortMessage ?? error?.message}`,
+      });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Throw a ConfigError listing every failed check
+ */
+export function assertConfigChecks(checks: ConfigCheck[]): void {
+  if (checks.some((check) => check.status === 'error')) {
+    throw new ConfigError(checks);
+  }
+}
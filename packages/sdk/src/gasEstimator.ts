@@ -0,0 +1,137 @@
+/**
+ * Rescue Gas Estimation
+ *
+ * Estimates the gas for an EIP-7702 rescue by simulating the exact call
+ * instead of sending a fixed limit:
+ * - eth_estimateGas with the authorization list (nodes with EIP-7702 support)
+ * - eth_estimateGas with the delegate's code overridden onto the user's EOA,
+ *   plus the intrinsic per-authorization cost the override can't account for
+ *
+ * The larger successful estimate wins and a safety margin is applied. The
+ * fixed DEFAULT_RESCUE_GAS is only used when neither method is available.
+ */
+
+import {
+  BaseError,
+  ExecutionRevertedError,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type SignedAuthorizationList,
+} from 'viem';
+
+// ============ Types ============
+
+export interface RescueGasParams {
+  // Relayer paying for the transaction
+  account: Address;
+  // The user's EOA (the transaction target)
+  to: Address;
+  data: Hex;
+  // Omitted when the user's EOA is already delegated
+  authorizationList?: SignedAuthorizationList;
+  // Delegate contract the authorization points at
+  delegate: Address;
+  // EOAs running the delegate's code, when `to` is a RescueBatcher rather
+  // than the user's EOA (defaults to [to])
+  delegatedAccounts?: Address[];
+}
+
+export interface RescueGasEstimate {
+  gas: bigint;
+  simulated?: bigint;
+  source: 'simulation' | 'fallback';
+}
+
+export interface GasEstimatorOptions {
+  marginBps: number;
+  fallbackGas: bigint;
+}
+
+// ============ Constants ============
+
+/** Gas limit used when the node can't simulate the rescue */
+export const DEFAULT_RESCUE_GAS = 500000n;
+
+// EIP-7702 PER_EMPTY_ACCOUNT_COST charged for every authorization tuple
+const PER_AUTHORIZATION_GAS = 25000n;
+
+const DEFAULT_OPTIONS: GasEstimatorOptions = {
+  marginBps: parseInt(process.env.GAS_ESTIMATE_MARGIN_BPS || '2000', 10), // +20%
+  fallbackGas: DEFAULT_RESCUE_GAS,
+};
+
+// ============ Errors ============
+
+/**
+ * The simulated rescue reverted - sending it would only burn gas
+ */
+export class RescueGasEstimationRevertedError extends Error {
+  constructor(public cause: unknown) {
+    super(`Rescue simulation reverted: ${(cause as BaseError)?.shortMessage || cause}`);
+    this.name = 'RescueGasEstimationRevertedError';
+  }
+}
+
+function isRevert(error: unknown): boolean {
+  return error instanceof BaseError && !!error.walk((e) => e instanceof ExecutionRevertedError);
+}
+
+// ============ Estimation ============
+
+/**
+ * Estimate the gas limit for an EIP-7702 rescue transaction
+ * Throws RescueGasEstimationRevertedError if every simulation reverts
+ */
+export async function estimateRescueGas(
+  client: PublicClient,
+  params: RescueGasParams,
+  options: Partial<GasEstimatorOptions> = {}
+): Promise<RescueGasEstimate> {
+  const { marginBps, fallbackGas } = { ...DEFAULT_OPTIONS, ...options };
+
+  const withAuthorizationList = client.estimateGas({
+    account: params.account,
+    to: params.to,
+    data: params.data,
+    authorizationList: params.authorizationList,
+  });
+
+  const withStateOverride = client
+    .getCode({ address: params.delegate })
+    .then((code) => {
+      if (!code) throw new Error(`No code at delegate ${params.delegate}`);
+      return client.estimateGas({
+        account: params.account,
+        to: params.to,
+        data: params.data,
+        stateOverride: (params.delegatedAccounts ?? [params.to]).map((address) => ({ address, code })),
+      });
+    })
+    .then((gas) => gas + PER_AUTHORIZATION_GAS * BigInt(params.authorizationList?.length ?? 0));
+
+  const results = await Promise.allSettled([withAuthorizationList, withStateOverride]);
+  const estimates = results
+    .filter((r): r is PromiseFulfilledResult<bigint> => r.status === 'fulfilled')
+    .map((r) => r.value);
+
+  if (estimates.length > 0) {
+    const simulated = estimates.reduce((max, gas) => (gas > max ? gas : max));
+    return {
+      gas: (simulated * BigInt(10000 + marginBps)) / 10000n,
+      simulated,
+      source: 'simulation',
+    };
+  }
+
+  const errors = results.map((r) => (r as PromiseRejectedResult).reason);
+  if (errors.every(isRevert)) {
+    throw new RescueGasEstimationRevertedError(errors[0]);
+  }
+
+  console.warn(
+    `⚠️ Gas estimation unavailable, using fallback of ${fallbackGas}:`,
+    (errors[0] as BaseError)?.shortMessage || errors[0]
+  );
+  return { gas: fallbackGas, source: 'fallback' };
+}
@@ -0,0 +1,17 @@
+/**
+ * @zero-g/sdk
+ *
+ * Typed ABIs and rescue helpers shared by the scripts, the auto-unstake bot
+ * and the Next.js app.
+ */
+
+export * from './abis';
+export * from './configChecks';
+export * from './gasEstimator';
+export * from './nonceManager';
+export * from './relayerApi';
+export * from './remoteSigner';
+export * from './rescue';
+export * from './rescueBreakdown';
+export * from './rescueSimulation';
+export * from './transactionTracker';
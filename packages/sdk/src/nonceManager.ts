@@ -0,0 +1,265 @@
+/**
+ * Relayer Nonce Manager
+ *
+ * Hands out nonces for the relayer account locally so several rescues can be
+ * in flight at once without viem picking the same `pending` nonce for each:
+ * - Nonces are reserved under a lock and released if the send fails
+ * - The counter resyncs from the node's `pending` count on nonce errors
+ *   and whenever the account goes idle for a while
+ * - Holes (reserved nonces that never reached the mempool) are detected on
+ *   resync and handed out again first, so later transactions aren't stuck
+ * - Transactions accepted only by a private mempool (markPrivate) never show
+ *   up in the node's `pending` count; their nonces are held until the
+ *   `latest` count passes them or they stay unmined for PRIVATE_PENDING_MAX_MS
+ *
+ * The API route keeps its managers in a registry on globalThis so every
+ * route module sees the same one (see getNonceManager).
+ */
+
+import type { Address, PublicClient } from 'viem';
+
+// ============ Types ============
+
+export interface NonceManagerState {
+  address: Address;
+  nextNonce?: number;
+  inFlight: number[];
+  broadcast: number[];
+  privatePending: number[];
+  gaps: number[];
+  lastSyncedAt?: number;
+}
+
+// ============ Constants ============
+
+// Resync from the node when idle this long (catches transactions sent elsewhere)
+const IDLE_RESYNC_MS = 30_000;
+
+// Treat a privately routed transaction as dropped after this long without a
+// (re)broadcast; private relays give up sooner (Flashbots Protect: 25 blocks)
+const PRIVATE_PENDING_MAX_MS = 15 * 60_000;
+
+const NONCE_ERROR_PATTERN = /nonce|already known|replacement transaction underpriced/i;
+
+// ============ Nonce Manager ============
+
+export class NonceManager {
+  readonly address: Address;
+  private client: PublicClient;
+  private nextNonce?: number;
+  private lastSyncedAt = 0;
+  // Reserved but not yet accepted by the node
+  private inFlight: Set<number> = new Set();
+  // Accepted by the node but possibly not mined yet
+  private broadcast: Set<number> = new Set();
+  // Broadcast only to private endpoints, with when it was last (re)broadcast
+  private privatePending: Map<number, number> = new Map();
+  // Nonces below nextNonce that must be reused before allocating new ones
+  private gaps: number[] = [];
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(client: PublicClient, address: Address) {
+    this.client = client;
+    this.address = address;
+  }
+
+  /**
+   * Reserve the next nonce for a transaction
+   * Call confirm() once the node accepts it, or release() if sending fails
+   */
+  reserve(): Promise<number> {
+    return this.exclusive(async () => {
+      const idle = this.inFlight.size === 0;
+      if (this.nextNonce === undefined || (idle && Date.now() - this.lastSyncedAt > IDLE_RESYNC_MS)) {
+        await this.sync();
+      }
+
+      const nonce = this.gaps.length > 0 ? this.gaps.shift()! : this.nextNonce!++;
+      this.inFlight.add(nonce);
+      return nonce;
+    });
+  }
+
+  /**
+   * Mark a reserved nonce as accepted by the node
+   */
+  confirm(nonce: number): void {
+    this.inFlight.delete(nonce);
+    this.broadcast.add(nonce);
+  }
+
+  /**
+   * Record that a nonce's transaction went to a private mempool only, so
+   * resyncs don't mistake it for a dropped one
+   * Call again for each replacement to keep it held
+   */
+  markPrivate(nonce: number): void {
+    this.privatePending.set(nonce, Date.now());
+  }
+
+  /**
+   * Return a reserved nonce whose transaction was never broadcast
+   * Nonce-related errors trigger a resync from the node
+   */
+  release(nonce: number, error?: unknown): Promise<void> {
+    return this.exclusive(async () => {
+      this.inFlight.delete(nonce);
+
+      if (nonce === this.nextNonce! - 1) {
+        this.nextNonce = nonce;
+      } else {
+        this.addGap(nonce);
+      }
+
+      if (error && isNonceError(error)) {
+        console.warn(`⚠️ Nonce error for ${this.address} at nonce ${nonce}, resyncing...`);
+        await this.sync();
+      }
+    });
+  }
+
+  /**
+   * Force a resync from the node's pending transaction count
+   */
+  resync(): Promise<void> {
+    return this.exclusive(() => this.sync());
+  }
+
+  getState(): NonceManagerState {
+    return {
+      address: this.address,
+      nextNonce: this.nextNonce,
+      inFlight: Array.from(this.inFlight).sort((a, b) => a - b),
+      broadcast: Array.from(this.broadcast).sort((a, b) => a - b),
+      privatePending: Array.from(this.privatePending.keys()).sort((a, b) => a - b),
+      gaps: [...this.gaps],
+      lastSyncedAt: this.lastSyncedAt || undefined,
+    };
+  }
+
+  /**
+   * Must be called while holding the lock
+   */
+  private async sync(): Promise<void> {
+    const pending = await this.client.getTransactionCount({
+      address: this.address,
+      blockTag: 'pending',
+    });
+    this.lastSyncedAt = Date.now();
+
+    // Private transactions are settled once mined; `pending` can't tell
+    if (this.privatePending.size > 0) {
+      const latest = await this.client.getTransactionCount({
+        address: this.address,
+        blockTag: 'latest',
+      });
+      for (const [nonce, sentAt] of this.privatePending) {
+        if (nonce < latest) {
+          this.privatePending.delete(nonce);
+        } else if (this.lastSyncedAt - sentAt > PRIVATE_PENDING_MAX_MS) {
+          console.warn(`⚠️ Private transaction at nonce ${nonce} for ${this.address} not mined, treating it as dropped`);
+          this.privatePending.delete(nonce);
+        }
+      }
+    }
+
+    // Everything below the pending count is mined or in the mempool
+    for (const nonce of this.broadcast) {
+      if (nonce < pending) this.broadcast.delete(nonce);
+    }
+    this.gaps = this.gaps.filter((nonce) => nonce >= pending);
+
+    // Another sender moved the account forward; skip past its nonces
+    if (this.nextNonce === undefined || pending > this.nextNonce) {
+      this.nextNonce = pending;
+      return;
+    }
+
+    // Nonces we handed out that the node doesn't know about and that nobody
+    // is still sending are holes; later transactions are stuck behind them.
+    // The pending count itself is always unknown to the node, even if we
+    // broadcast it once (the transaction was dropped), unless it went to a
+    // private mempool the node can't see.
+    for (let nonce = pending; nonce < this.nextNonce; nonce++) {
+      const dropped = !this.privatePending.has(nonce) && (nonce === pending || !this.broadcast.has(nonce));
+      if (!this.inFlight.has(nonce) && dropped && !this.gaps.includes(nonce)) {
+        console.warn(`⚠️ Nonce gap detected for ${this.address} at nonce ${nonce}`);
+        this.broadcast.delete(nonce);
+        this.addGap(nonce);
+      }
+    }
+
+    // Trailing gaps can simply be rolled back
+    while (this.gaps.length > 0 && this.gaps[this.gaps.length - 1] === this.nextNonce - 1) {
+      this.gaps.pop();
+      this.nextNonce--;
+    }
+  }
+
+  private addGap(nonce: number): void {
+    if (!this.gaps.includes(nonce)) {
+      this.gaps.push(nonce);
+      this.gaps.sort((a, b) => a - b);
+    }
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(fn);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Whether an error from sendTransaction was caused by a bad nonce
+ */
+export function isNonceError(error: unknown): boolean {
+  const err = error as { message?: string; details?: string; shortMessage?: string };
+  return NONCE_ERROR_PATTERN.test(
+    [err?.shortMessage, err?.details, err?.message].filter(Boolean).join(' ')
+  );
+}
+
+// Nonce managers keyed by chain id and account
+export type NonceManagerRegistry = Map<string, NonceManager>;
+
+const managers: NonceManagerRegistry = new Map();
+
+/**
+ * Get the process-wide nonce manager for an account on a chain
+ * Every sender for the same relayer account must share one instance; pass a
+ * registry when module state isn't shared (e.g. across Next.js route modules)
+ */
+export function getNonceManager(
+  client: PublicClient,
+  address: Address,
+  registry: NonceManagerRegistry = managers
+): NonceManager {
+  const key = `${client.chain?.id ?? 'unknown'}:${address.toLowerCase()}`;
+  let manager = registry.get(key);
+  if (!manager) {
+    manager = new NonceManager(client, address);
+    registry.set(key, manager);
+  }
+  return manager;
+}
+
+/**
+ * Run a send with a reserved nonce, confirming or releasing it afterwards
+ */
+export async function withReservedNonce<T>(
+  manager: NonceManager,
+  send: (nonce: number) => Promise<T>
+): Promise<T> {
+  const nonce = await manager.reserve();
+  try {
+    const result = await send(nonce);
+    manager.confirm(nonce);
+    return result;
+  } catch (error) {
+    await manager.release(nonce, error);
+    throw error;
+  }
+}
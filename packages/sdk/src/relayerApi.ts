@@ -0,0 +1,101 @@
+/**
+ * Relayer API Client
+ *
+ * Submits rescues to a relayer's HTTP API (the Next.js /api/rescue route)
+ * and follows the queued job until its transaction is mined.
+ */
+
+import type { Address } from 'viem';
+import type { AuthorizationTuple } from './rescueSimulation';
+
+// ============ Types ============
+
+// Rescue job lifecycle as reported by GET <api>/rescue/[id]
+export type RescueJobStatus = 'queued' | 'submitted' | 'confirmed' | 'reverted' | 'failed';
+
+export interface RescueJob {
+  id: string;
+  status: RescueJobStatus;
+  userAddress: `0x${string}`;
+  vaultAddress: `0x${string}`;
+  createdAt: number;
+  updatedAt: number;
+  txHash?: `0x${string}`;
+  // Earlier versions of txHash, replaced while stuck
+  replacedTxHashes?: `0x${string}`[];
+  blockNumber?: string;
+  gasUsed?: string;
+  // Token amounts (wei, as decimal strings) and gas paid by the relayer
+  fees: {
+    amount: string;
+    fee: string;
+    netAmount: string;
+    gasCost?: string;
+  };
+  error?: string;
+}
+
+export interface RescueSubmission {
+  userAddress: Address;
+  // Defaults to the relayer's vault
+  vaultAddress?: Address;
+  authorization: AuthorizationTuple;
+  // Maximum fee as a share of the stake (200 = 2%)
+  maxFeeBps?: number;
+}
+
+export const FINISHED_JOB_STATUSES: RescueJobStatus[] = ['confirmed', 'reverted', 'failed'];
+
+// ============ Constants ============
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// ============ Client ============
+
+/**
+ * Submit a rescue to the relayer API and return the queued job id
+ */
+export async function submitRescue(apiUrl: string, submission: RescueSubmission): Promise<string> {
+  const response = await fetch(`${apiUrl}/rescue`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(submission),
+  });
+
+  const data = (await response.json()) as { jobId: string; error?: string };
+  if (!response.ok) {
+    throw new Error(data.error || 'Rescue failed');
+  }
+  return data.jobId;
+}
+
+/**
+ * Poll a rescue job until it is confirmed, reverted or failed
+ * Resolves with the confirmed job, throws for reverted/failed jobs
+ */
+export async function waitForRescueJob(
+  apiUrl: string,
+  jobId: string,
+  onUpdate?: (job: RescueJob) => void
+): Promise<RescueJob> {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(`${apiUrl}/rescue/${jobId}`);
+    const job = (await response.json()) as RescueJob;
+    if (!response.ok) {
+      throw new Error(job.error || 'Could not fetch rescue status');
+    }
+
+    onUpdate?.(job);
+
+    if (job.status === 'confirmed') return job;
+    if (job.status === 'reverted') throw new Error('Rescue transaction reverted');
+    if (job.status === 'failed') throw new Error(job.error || 'Rescue transaction failed');
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error('Timed out waiting for the rescue to confirm. Check the activity feed for updates.');
+}
@@ -0,0 +1,127 @@
+/**
+ * Remote Signer Account
+ *
+ * A viem account whose keys live in a remote signer speaking the
+ * Web3Signer-compatible JSON-RPC (eth_accounts, eth_sign,
+ * eth_signTransaction, eth_signTypedData), so relayers don't need a private
+ * key on disk. Works anywhere fetch does, including the Next.js API route.
+ *
+ * Remote signers can't sign EIP-7702 authorizations; users sign those with
+ * their own wallets.
+ */
+
+import {
+  formatTransactionRequest,
+  isAddressEqual,
+  numberToHex,
+  recoverTransactionAddress,
+  serializeTypedData,
+  toHex,
+  type Address,
+  type Hex,
+  type LocalAccount,
+  type TransactionSerializable,
+  type TransactionSerialized,
+} from 'viem';
+import { toAccount } from 'viem/accounts';
+
+// ============ Types ============
+
+export interface RemoteSignerOptions {
+  // JSON-RPC endpoint of the signer, e.g. http://localhost:9000
+  url: string;
+  // Account to sign with; defaults to the signer's only account
+  address?: Address;
+}
+
+// ============ Errors ============
+
+export class RemoteSignerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemoteSignerError';
+  }
+}
+
+// ============ JSON-RPC ============
+
+let requestId = 0;
+
+async function signerRequest<T>(url: string, method: string, params: unknown[]): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+    });
+  } catch (error: any) {
+    throw new RemoteSignerError(`Remote signer ${url} is unreachable: ${error?.message ?? error}`);
+  }
+
+  const body = (await response.json().catch(() => undefined)) as
+    | { result?: T; error?: { code: number; message: string } }
+    | undefined;
+  if (!response.ok || !body || body.error || body.result === undefined) {
+    const reason = body?.error?.message ?? `HTTP ${response.status}`;
+    throw new RemoteSignerError(`Remote signer ${method} failed: ${reason}`);
+  }
+  return body.result;
+}
+
+// ============ Account ============
+
+/**
+ * Connect to a remote signer and return a viem account that signs through it
+ * Fails when the signer doesn't hold the requested (or exactly one) account
+ */
+export async function createRemoteSignerAccount(options: RemoteSignerOptions): Promise<LocalAccount> {
+  const { url } = options;
+
+  const accounts = await signerRequest<Address[]>(url, 'eth_accounts', []);
+  const signer = options.address ?? (accounts.length === 1 ? accounts[0] : undefined);
+  if (!signer) {
+    throw new RemoteSignerError(
+      `Remote signer ${url} holds ${accounts.length} accounts; choose one with its address` +
+        (accounts.length ? ` (${accounts.join(', ')})` : '')
+    );
+  }
+  if (!accounts.some((account) => isAddressEqual(account, signer))) {
+    throw new RemoteSignerError(`Remote signer ${url} does not hold ${signer}`);
+  }
+
+  return toAccount({
+    address: signer,
+
+    async signMessage({ message }) {
+      const data =
+        typeof message === 'string'
+          ? toHex(message)
+          : typeof message.raw === 'string'
+            ? message.raw
+            : toHex(message.raw);
+      return signerRequest<Hex>(url, 'eth_sign', [signer, data]);
+    },
+
+    async signTransaction(transaction) {
+      // Blob sidecars travel next to the transaction and are not signed
+      const { sidecars: _sidecars, ...fields }: TransactionSerializable = transaction;
+      const request = {
+        ...formatTransactionRequest({ ...fields, from: signer }),
+        ...(transaction.chainId !== undefined ? { chainId: numberToHex(transaction.chainId) } : {}),
+      };
+      const serializedTransaction = await signerRequest<TransactionSerialized>(url, 'eth_signTransaction', [request]);
+
+      // Never broadcast something signed by a different key than expected
+      const recovered = await recoverTransactionAddress({ serializedTransaction });
+      if (!isAddressEqual(recovered, signer)) {
+        throw new RemoteSignerError(`Remote signer returned a transaction signed by ${recovered}, expected ${signer}`);
+      }
+      return serializedTransaction;
+    },
+
+    async signTypedData(typedData) {
+      return signerRequest<Hex>(url, 'eth_signTypedData', [signer, serializeTypedData(typedData)]);
+    },
+  });
+}
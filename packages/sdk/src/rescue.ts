@@ -0,0 +1,165 @@
+/**
+ * Rescue Helpers
+ *
+ * The contract calls every Zero-G client makes, typed against the shared ABIs:
+ * - getStake / quoteRescue: read a user's stake and the rescue it would yield
+ * - signRescueAuthorization: the user's EIP-7702 delegation to UnstakeDelegate
+ * - buildRescueTransaction: the relayer's call to the user's EOA
+ */
+
+import {
+  encodeFunctionData,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from 'viem';
+import { StakingVaultABI, UnstakeDelegateABI } from './abis';
+import type { AuthorizationTuple } from './rescueSimulation';
+
+// ============ Types ============
+
+export interface Stake {
+  amount: bigint;
+  // Unix seconds; 0 when nothing is staked
+  unlockTime: bigint;
+  canUnstake: boolean;
+}
+
+export interface RescueQuote {
+  stakedAmount: bigint;
+  // Relayer fee at current gas prices, in staking tokens
+  estimatedFee: bigint;
+  userWouldReceive: bigint;
+  canRescue: boolean;
+}
+
+export interface VaultRescue {
+  vault: Address;
+  // Maximum fee (in tokens) the user accepts for this vault
+  maxFee: bigint;
+}
+
+export interface RescueTransactionParams {
+  user: Address;
+  // Receives the fees
+  relayer: Address;
+  // One vault calls executeRescue, several executeBatchRescue
+  vaults: VaultRescue[];
+  // Omit when the user's EOA is already delegated (its nonce is spent)
+  authorization?: AuthorizationTuple;
+}
+
+export interface RescueTransaction {
+  // The user's EOA, which runs UnstakeDelegate once delegated
+  to: Address;
+  data: Hex;
+  authorizationList?: AuthorizationTuple[];
+}
+
+// ============ Reads ============
+
+/**
+ * A user's stake in a vault
+ */
+export async function getStake(
+  client: PublicClient,
+  params: { vault: Address; user: Address }
+): Promise<Stake> {
+  const [[amount, unlockTime], canUnstake] = await Promise.all([
+    client.readContract({
+      address: params.vault,
+      abi: StakingVaultABI,
+      functionName: 'stakes',
+      args: [params.user],
+    }),
+    client.readContract({
+      address: params.vault,
+      abi: StakingVaultABI,
+      functionName: 'canUnstake',
+      args: [params.user],
+    }),
+  ]);
+  return { amount, unlockTime, canUnstake };
+}
+
+/**
+ * What a rescue of a user's stake would pay out, per UnstakeDelegate.estimateRescue
+ */
+export async function quoteRescue(
+  client: PublicClient,
+  params: { delegate: Address; vault: Address; user: Address }
+): Promise<RescueQuote> {
+  const [stakedAmount, estimatedFee, userWouldReceive, canRescue] = await client.readContract({
+    address: params.delegate,
+    abi: UnstakeDelegateABI,
+    functionName: 'estimateRescue',
+    args: [params.vault, params.user],
+  });
+  return { stakedAmount, estimatedFee, userWouldReceive, canRescue };
+}
+
+// ============ Authorization ============
+
+/**
+ * Sign the EIP-7702 authorization delegating the wallet's EOA to UnstakeDelegate
+ * Returned in authorizationList form, ready for the relayer
+ */
+export async function signRescueAuthorization(
+  walletClient: WalletClient<Transport, Chain | undefined, Account>,
+  delegate: Address
+): Promise<AuthorizationTuple> {
+  try {
+    const authorization = await walletClient.signAuthorization({
+      account: walletClient.account,
+      address: delegate,
+    });
+    return {
+      address: authorization.address,
+      chainId: authorization.chainId,
+      nonce: authorization.nonce,
+      r: authorization.r,
+      s: authorization.s,
+      yParity: authorization.yParity ?? (authorization.v !== undefined ? Number(authorization.v) - 27 : 0),
+    };
+  } catch (error: any) {
+    if (error?.name === 'AccountTypeNotSupportedError') {
+      throw new Error('Your wallet does not support signing EIP-7702 authorizations yet.');
+    }
+    throw error;
+  }
+}
+
+// ============ Transactions ============
+
+/**
+ * The relayer's rescue transaction: a call to the user's EOA, carrying the
+ * authorization when the EOA isn't delegated yet
+ */
+export function buildRescueTransaction(params: RescueTransactionParams): RescueTransaction {
+  if (params.vaults.length === 0) {
+    throw new Error('A rescue needs at least one vault');
+  }
+
+  const data =
+    params.vaults.length === 1
+      ? encodeFunctionData({
+          abi: UnstakeDelegateABI,
+          functionName: 'executeRescue',
+          args: [params.vaults[0].vault, params.relayer, params.vaults[0].maxFee],
+        })
+      : encodeFunctionData({
+          abi: UnstakeDelegateABI,
+          functionName: 'executeBatchRescue',
+          args: [params.vaults.map((v) => v.vault), params.relayer, params.vaults.map((v) => v.maxFee)],
+        });
+
+  return {
+    to: params.user,
+    data,
+    authorizationList: params.authorization ? [params.authorization] : undefined,
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Rescue Breakdown
+ *
+ * Per-vault results of a confirmed rescue, read from the RescueExecuted
+ * events UnstakeDelegate emits for every vault (one for executeRescue,
+ * one per vault for executeBatchRescue).
+ */
+
+import { isAddressEqual, parseEventLogs, type Address, type Log } from 'viem';
+import { UnstakeDelegateABI } from './abis';
+
+// ============ Types ============
+
+export interface VaultRescueResult {
+  vaultAddress: Address;
+  totalUnstaked: bigint;
+  relayerFee: bigint;
+  userReceived: bigint;
+}
+
+// ============ Decoding ============
+
+/**
+ * Extract the RescueExecuted results for a user from a receipt's logs
+ */
+export function decodeRescueBreakdown(logs: Log[], user: Address): VaultRescueResult[] {
+  return parseEventLogs({ abi: UnstakeDelegateABI, eventName: 'RescueExecuted', logs })
+    .filter((log) => isAddressEqual(log.args.user, user))
+    .map((log) => ({
+      vaultAddress: log.args.vault,
+      totalUnstaked: log.args.totalUnstaked,
+      relayerFee: log.args.relayerFee,
+      userReceived: log.args.userReceived,
+    }));
+}
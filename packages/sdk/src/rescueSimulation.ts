@@ -0,0 +1,436 @@
+/**
+ * Rescue Pre-flight Simulation
+ *
+ * Dry-runs the exact executeRescue (or executeBatchRescue, or RescueBatcher)
+ * call a relayer is about to send so doomed
+ * transactions are rejected before they burn gas:
+ * 1. Checks the authorization itself (delegate, chain, signer, account nonce).
+ *    Nodes silently skip invalid authorization tuples, so a bad one would
+ *    "succeed" without rescuing anything.
+ * 2. eth_call with the delegate's code overridden onto the user's EOA, falling
+ *    back to eth_call with the authorization list.
+ * 3. Decodes UnstakeDelegate custom errors into structured rejection reasons.
+ *
+ * Users whose EOA already delegates to UnstakeDelegate (e.g. after rescuing
+ * from another vault, which consumed the authorization's nonce) are simulated
+ * and rescued without an authorization.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  isAddressEqual,
+  type Abi,
+  type Address,
+  type Chain,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type PublicClient,
+  type SignedAuthorizationList,
+  type SimulateContractParameters,
+  type StateOverride,
+} from 'viem';
+import { recoverAuthorizationAddress } from 'viem/utils';
+import { RescueBatcherABI, UnstakeDelegateABI } from './abis';
+
+// ============ Types ============
+
+export type RescueRejectionCode =
+  | 'WRONG_DELEGATE'
+  | 'WRONG_CHAIN'
+  | 'SIGNER_MISMATCH'
+  | 'STALE_AUTHORIZATION'
+  | 'ZERO_ADDRESS'
+  | 'CANNOT_UNSTAKE'
+  | 'FEE_TOO_HIGH'
+  | 'INSUFFICIENT_UNSTAKED_AMOUNT'
+  | 'TRANSFER_FAILED'
+  | 'INVALID_BATCH'
+  | 'NOT_DELEGATED'
+  | 'REVERTED'
+  | 'UNSUPPORTED_VAULT'
+  // Not a revert: the fee doesn't cover the relayer's gas (see scripts/utils/profitability.ts)
+  | 'UNPROFITABLE';
+
+export interface RescueRejection {
+  code: RescueRejectionCode;
+  message: string;
+  // Decoded custom error arguments (bigints as decimal strings)
+  details?: Record<string, string>;
+}
+
+export type RescueSimulationResult =
+  // delegated: the EOA already runs the delegate, send without an authorizationList
+  | { ok: true; simulated: boolean; delegated: boolean }
+  | { ok: false; reason: RescueRejection };
+
+// Signed EIP-7702 authorization in viem's authorizationList format
+export interface AuthorizationTuple {
+  address: Address;
+  chainId: number;
+  nonce: number;
+  r: `0x${string}`;
+  s: `0x${string}`;
+  yParity: number;
+}
+
+// How a simulation makes the users' EOAs run the delegate's code: not at all
+// (already delegated), by overriding their code, or by the authorizations
+type SimulationOverrides =
+  | Record<string, never>
+  | { stateOverride: StateOverride }
+  | { authorizationList: SignedAuthorizationList };
+
+// A simulated write from the relayer's address
+type SimulateCall<abi extends Abi, functionName extends ContractFunctionName<abi, 'nonpayable' | 'payable'>> =
+  SimulateContractParameters<
+    abi,
+    functionName,
+    ContractFunctionArgs<abi, 'nonpayable' | 'payable', functionName>,
+    Chain | undefined,
+    Chain | undefined,
+    Address
+  >;
+
+export interface RescueSimulationParams {
+  relayer: Address;
+  user: Address;
+  vault: Address;
+  maxFee: bigint;
+  authorization: AuthorizationTuple;
+  // The UnstakeDelegate the relayer expects users to delegate to
+  delegate: Address;
+}
+
+export interface BatchRescueSimulationParams extends Omit<RescueSimulationParams, 'vault' | 'maxFee'> {
+  vaults: Address[];
+  maxFees: bigint[];
+}
+
+// One rescue in a RescueBatcher transaction (a user may have several)
+export interface BatcherRescue {
+  user: Address;
+  vault: Address;
+  maxFee: bigint;
+  authorization: AuthorizationTuple;
+}
+
+export interface BatcherSimulationParams {
+  relayer: Address;
+  // The RescueBatcher contract the transaction is sent to
+  batcher: Address;
+  delegate: Address;
+  rescues: BatcherRescue[];
+}
+
+export type BatcherSimulationResult =
+  // authorizations: one per user not yet delegated, for the authorizationList
+  | { ok: true; simulated: boolean; authorizations: AuthorizationTuple[] }
+  | { ok: false; reason: RescueRejection };
+
+// ============ Error Decoding ============
+
+/**
+ * Map a reverted executeRescue call to a structured rejection
+ */
+export function decodeRescueRevert(error: unknown): RescueRejection | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError) as
+    | ContractFunctionRevertedError
+    | null;
+  if (!reverted) return undefined;
+
+  const errorName = reverted.data?.errorName;
+  const args = (reverted.data?.args ?? []) as readonly unknown[];
+
+  switch (errorName) {
+    case 'ZeroAddress':
+      return { code: 'ZERO_ADDRESS', message: 'Vault or relayer address is zero' };
+    case 'CannotUnstake':
+      return { code: 'CANNOT_UNSTAKE', message: 'Stake is still locked or empty' };
+    case 'FeeTooHigh':
+      return {
+        code: 'FEE_TOO_HIGH',
+        message: `Relayer fee ${args[0]} exceeds the user's max fee ${args[1]}`,
+        details: { requested: String(args[0]), maxAllowed: String(args[1]) },
+      };
+    case 'InsufficientUnstakedAmount':
+      return {
+        code: 'INSUFFICIENT_UNSTAKED_AMOUNT',
+        message: 'Vault did not return any tokens on unstake',
+      };
+    case 'TransferFailed':
+      return { code: 'TRANSFER_FAILED', message: 'Fee transfer to the relayer failed' };
+    case 'EmptyBatch':
+      return { code: 'INVALID_BATCH', message: 'Batch rescue is empty' };
+    case 'LengthMismatch':
+      return { code: 'INVALID_BATCH', message: 'Batch rescue has a different number of vaults and max fees' };
+    case 'NotDelegated':
+      return {
+        code: 'NOT_DELEGATED',
+        message: `${args[0]} does not delegate to UnstakeDelegate (authorization skipped?)`,
+        details: { user: String(args[0]) },
+      };
+    default:
+      return {
+        code: 'REVERTED',
+        message: `Rescue would revert: ${reverted.reason || errorName || reverted.shortMessage}`,
+        ...(reverted.raw ? { details: { data: reverted.raw } } : {}),
+      };
+  }
+}
+
+// ============ Simulation ============
+
+// EIP-7702 delegation designator: 0xef0100 || address
+const DELEGATION_PREFIX = '0xef0100';
+
+/**
+ * The contract an EOA currently delegates to, if any
+ */
+export async function getDelegation(client: PublicClient, account: Address): Promise<Address | undefined> {
+  const code = await client.getCode({ address: account });
+  if (!code || !code.toLowerCase().startsWith(DELEGATION_PREFIX) || code.length !== 48) {
+    return undefined;
+  }
+  return `0x${code.slice(DELEGATION_PREFIX.length)}` as Address;
+}
+
+/**
+ * Whether an EOA already delegates to the given contract
+ */
+export async function isDelegatedTo(
+  client: PublicClient,
+  account: Address,
+  delegate: Address
+): Promise<boolean> {
+  const current = await getDelegation(client, account);
+  return current !== undefined && isAddressEqual(current, delegate);
+}
+
+/**
+ * Check that an EIP-7702 authorization can actually be used right now
+ */
+export async function checkAuthorization(
+  client: PublicClient,
+  params: Pick<RescueSimulationParams, 'user' | 'authorization' | 'delegate'>
+): Promise<RescueRejection | undefined> {
+  const { user, authorization, delegate } = params;
+
+  if (!isAddressEqual(authorization.address, delegate)) {
+    return {
+      code: 'WRONG_DELEGATE',
+      message: `Authorization delegates to ${authorization.address}, expected ${delegate}`,
+    };
+  }
+
+  // chainId 0 authorizations are valid on every chain
+  const chainId = client.chain?.id ?? (await client.getChainId());
+  if (authorization.chainId !== 0 && authorization.chainId !== chainId) {
+    return {
+      code: 'WRONG_CHAIN',
+      message: `Authorization is for chain ${authorization.chainId}, relayer is on ${chainId}`,
+    };
+  }
+
+  const signer = await recoverAuthorizationAddress({ authorization });
+  if (!isAddressEqual(signer, user)) {
+    return {
+      code: 'SIGNER_MISMATCH',
+      message: `Authorization was signed by ${signer}, not ${user}`,
+    };
+  }
+
+  const accountNonce = await client.getTransactionCount({ address: user });
+  if (authorization.nonce !== accountNonce) {
+    return {
+      code: 'STALE_AUTHORIZATION',
+      message: `Authorization nonce ${authorization.nonce} does not match account nonce ${accountNonce}`,
+      details: {
+        authorizationNonce: String(authorization.nonce),
+        accountNonce: String(accountNonce),
+      },
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Simulate the exact executeRescue transaction the relayer would send
+ * Returns { ok: true, simulated: false } when the node can't simulate it
+ */
+export function simulateRescue(
+  client: PublicClient,
+  params: RescueSimulationParams
+): Promise<RescueSimulationResult> {
+  return simulateDelegateCall(client, params, {
+    functionName: 'executeRescue',
+    args: [params.vault, params.relayer, params.maxFee],
+  });
+}
+
+/**
+ * Simulate an executeBatchRescue over several vaults
+ * The batch is atomic, so a rejection means none of the vaults would be rescued
+ */
+export function simulateBatchRescue(
+  client: PublicClient,
+  params: BatchRescueSimulationParams
+): Promise<RescueSimulationResult> {
+  return simulateDelegateCall(client, params, {
+    functionName: 'executeBatchRescue',
+    args: [params.vaults, params.relayer, params.maxFees],
+  });
+}
+
+async function simulateDelegateCall(
+  client: PublicClient,
+  params: Omit<RescueSimulationParams, 'vault' | 'maxFee'>,
+  fn:
+    | { functionName: 'executeRescue'; args: readonly [Address, Address, bigint] }
+    | { functionName: 'executeBatchRescue'; args: readonly [Address[], Address, bigint[]] }
+): Promise<RescueSimulationResult> {
+  const delegated = await isDelegatedTo(client, params.user, params.delegate);
+  if (!delegated) {
+    const authorizationProblem = await checkAuthorization(client, params);
+    if (authorizationProblem) {
+      return { ok: false, reason: authorizationProblem };
+    }
+  }
+
+  const code = await client.getCode({ address: params.delegate });
+  if (!code) {
+    return {
+      ok: false,
+      reason: { code: 'WRONG_DELEGATE', message: `No contract deployed at delegate ${params.delegate}` },
+    };
+  }
+
+  const simulate = (overrides: SimulationOverrides) => {
+    if (fn.functionName === 'executeRescue') {
+      const call: SimulateCall<typeof UnstakeDelegateABI, 'executeRescue'> = {
+        address: params.user,
+        abi: UnstakeDelegateABI,
+        functionName: fn.functionName,
+        args: fn.args,
+        account: params.relayer,
+        ...overrides,
+      };
+      return client.simulateContract(call);
+    }
+    const call: SimulateCall<typeof UnstakeDelegateABI, 'executeBatchRescue'> = {
+      address: params.user,
+      abi: UnstakeDelegateABI,
+      functionName: fn.functionName,
+      args: fn.args,
+      account: params.relayer,
+      ...overrides,
+    };
+    return client.simulateContract(call);
+  };
+
+  let lastError: unknown;
+  const attempts: SimulationOverrides[] = delegated
+    ? [{}]
+    : [
+        { stateOverride: [{ address: params.user, code }] },
+        { authorizationList: [params.authorization] },
+      ];
+  for (const overrides of attempts) {
+    try {
+      await simulate(overrides);
+      return { ok: true, simulated: true, delegated };
+    } catch (error) {
+      const rejection = decodeRescueRevert(error);
+      if (rejection) {
+        return { ok: false, reason: rejection };
+      }
+      lastError = error;
+    }
+  }
+
+  console.warn(
+    '⚠️ Rescue simulation unavailable:',
+    (lastError as BaseError)?.shortMessage || lastError
+  );
+  return { ok: true, simulated: false, delegated };
+}
+
+/**
+ * Simulate a RescueBatcher.rescueBatch over several users
+ * Rejections caused by one user's authorization carry details.user
+ */
+export async function simulateBatcherRescue(
+  client: PublicClient,
+  params: BatcherSimulationParams
+): Promise<BatcherSimulationResult> {
+  const { relayer, batcher, delegate, rescues } = params;
+
+  // Every user needs one authorization, however many vaults they rescue from
+  const seen: Set<string> = new Set();
+  const undelegated: BatcherRescue[] = [];
+  for (const rescue of rescues) {
+    const key = rescue.user.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (await isDelegatedTo(client, rescue.user, delegate)) continue;
+
+    const problem = await checkAuthorization(client, { ...rescue, delegate });
+    if (problem) {
+      return { ok: false, reason: { ...problem, details: { ...problem.details, user: rescue.user } } };
+    }
+    undelegated.push(rescue);
+  }
+  const authorizations = undelegated.map((rescue) => rescue.authorization);
+
+  const code = await client.getCode({ address: delegate });
+  if (!code) {
+    return {
+      ok: false,
+      reason: { code: 'WRONG_DELEGATE', message: `No contract deployed at delegate ${delegate}` },
+    };
+  }
+
+  // The delegate's errors bubble up through the batcher
+  const abi = [...RescueBatcherABI, ...UnstakeDelegateABI] as const;
+  const simulate = (overrides: SimulationOverrides) => {
+    const call: SimulateCall<typeof abi, 'rescueBatch'> = {
+      address: batcher,
+      abi,
+      functionName: 'rescueBatch',
+      args: [rescues.map(({ user, vault, maxFee }) => ({ user, vault, maxFee }))],
+      account: relayer,
+      ...overrides,
+    };
+    return client.simulateContract(call);
+  };
+
+  let lastError: unknown;
+  const attempts: SimulationOverrides[] =
+    undelegated.length === 0
+      ? [{}]
+      : [
+          { stateOverride: undelegated.map((rescue) => ({ address: rescue.user, code })) },
+          { authorizationList: authorizations },
+        ];
+  for (const overrides of attempts) {
+    try {
+      await simulate(overrides);
+      return { ok: true, simulated: true, authorizations };
+    } catch (error) {
+      const rejection = decodeRescueRevert(error);
+      if (rejection) {
+        return { ok: false, reason: rejection };
+      }
+      lastError = error;
+    }
+  }
+
+  console.warn(
+    '⚠️ Batcher simulation unavailable:',
+    (lastError as BaseError)?.shortMessage || lastError
+  );
+  return { ok: true, simulated: false, authorizations };
+}
@@ -0,0 +1,323 @@
+/**
+ * Stuck Transaction Tracker
+ *
+ * Watches a relayed transaction until one of its versions is mined instead of
+ * waiting on a single hash forever:
+ * - Re-broadcasts with bumped fees when nothing is mined within bumpAfterMs,
+ *   never above the configured fee ceiling
+ * - Optionally cancels after cancelAfterMs with a zero-value self-transfer
+ *   at the same nonce
+ * - Records every hash it broadcast so callers can follow replacements
+ * - Rides out RPC errors while polling, and gives up with a
+ *   TransactionTrackingError after maxPollFailures failed polls in a row or
+ *   timeoutMs without a mined version (e.g. stuck at the fee ceiling)
+ *
+ * Replacements are re-signed from the original request, so EIP-7702
+ * transactions keep their authorizationList (the authorizations carry the
+ * user's nonce, not the relayer's, and stay valid). How they are broadcast is
+ * up to the TransactionSender: the scripts' MEV-protected relayer or the API
+ * route's wallet client.
+ */
+
+import {
+  BaseError,
+  TransactionReceiptNotFoundError,
+  parseGwei,
+  type Address,
+  type Hash,
+  type OneOf,
+  type PublicClient,
+  type SignedAuthorizationList,
+  type TransactionReceipt,
+  type TransactionRequestEIP1559,
+  type TransactionRequestEIP7702,
+  type TransactionRequestLegacy,
+} from 'viem';
+
+// ============ Types ============
+
+// A legacy or EIP-1559 request, or an EIP-7702 one carrying signed authorizations
+export type TrackedTransactionRequest = OneOf<
+  | TransactionRequestLegacy
+  | TransactionRequestEIP1559
+  | (Omit<TransactionRequestEIP7702, 'authorizationList'> & { authorizationList?: SignedAuthorizationList })
+>;
+
+export interface SentTransaction {
+  hash: Hash;
+  // The signed request (nonce, gas and fees filled in), for replacements
+  request: TrackedTransactionRequest;
+}
+
+export interface TransactionSender {
+  // The account whose nonce the transaction uses
+  address: Address;
+  // Sign and broadcast a replacement at the request's nonce
+  send: (request: TrackedTransactionRequest) => Promise<Hash>;
+}
+
+export interface TransactionTrackerOptions {
+  // Re-broadcast with higher fees when nothing is mined for this long
+  bumpAfterMs: number;
+  // Fee increase per replacement (nodes require at least +10%)
+  bumpBps: number;
+  // Fees are never bumped past this maxFeePerGas / gasPrice
+  maxFeePerGas: bigint;
+  // Cancel with a self-transfer after this long (unset: never cancel)
+  cancelAfterMs?: number;
+  // Stop tracking when no version is mined within this long
+  timeoutMs: number;
+  // Stop tracking after this many failed polls in a row
+  maxPollFailures: number;
+  pollIntervalMs: number;
+}
+
+export interface TrackedTransaction {
+  receipt: TransactionReceipt;
+  // The version that was mined
+  hash: Hash;
+  // Every hash broadcast for this nonce, the original first
+  hashes: Hash[];
+  // The mined version is the cancelling self-transfer
+  cancelled: boolean;
+}
+
+export interface TrackerHooks {
+  // Called for each speed-up or cancellation that was broadcast
+  onReplaced?: (hash: Hash, replaced: Hash, kind: 'speed-up' | 'cancel') => void;
+}
+
+// ============ Constants ============
+
+const DEFAULT_OPTIONS: TransactionTrackerOptions = {
+  bumpAfterMs: parseInt(process.env.TX_BUMP_AFTER_MS || '60000', 10),
+  bumpBps: parseInt(process.env.TX_BUMP_BPS || '1250', 10), // +12.5%
+  maxFeePerGas: parseGwei(process.env.TX_MAX_FEE_GWEI || '50'),
+  cancelAfterMs: process.env.TX_CANCEL_AFTER_MS ? parseInt(process.env.TX_CANCEL_AFTER_MS, 10) : undefined,
+  timeoutMs: parseInt(process.env.TX_TRACK_TIMEOUT_MS || '1800000', 10), // 30 minutes
+  maxPollFailures: 20,
+  pollIntervalMs: 3000,
+};
+
+const BPS_DENOMINATOR = 10000n;
+
+// Gas for a plain ETH/BNB transfer
+const TRANSFER_GAS = 21000n;
+
+// ============ Errors ============
+
+/**
+ * Tracking stopped before any version was mined; one may still be, so this
+ * is not a failed transaction
+ */
+export class TransactionTrackingError extends Error {
+  constructor(
+    message: string,
+    public nonce: number,
+    // Every hash broadcast for the nonce, the original first
+    public hashes: Hash[],
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'TransactionTrackingError';
+  }
+}
+
+// ============ Helpers ============
+
+function bump(value: bigint | undefined, bumpBps: number, ceiling: bigint): bigint | undefined {
+  if (value === undefined) return undefined;
+  const bumped = (value * (BPS_DENOMINATOR + BigInt(bumpBps)) + BPS_DENOMINATOR - 1n) / BPS_DENOMINATOR;
+  return bumped > ceiling ? ceiling : bumped;
+}
+
+/**
+ * A request with its fees raised by bumpBps, capped at the ceiling
+ * Returns undefined when the request is already at the ceiling
+ */
+function bumpFees(
+  request: TrackedTransactionRequest,
+  options: TransactionTrackerOptions
+): TrackedTransactionRequest | undefined {
+  const ceiling = options.maxFeePerGas;
+  if (request.maxFeePerGas !== undefined) {
+    if (request.maxFeePerGas >= ceiling) return undefined;
+    const maxFeePerGas = bump(request.maxFeePerGas, options.bumpBps, ceiling)!;
+    const priority = bump(request.maxPriorityFeePerGas, options.bumpBps, ceiling);
+    return {
+      ...request,
+      maxFeePerGas,
+      maxPriorityFeePerGas: priority !== undefined && priority > maxFeePerGas ? maxFeePerGas : priority,
+    };
+  }
+  if (request.gasPrice === undefined || request.gasPrice >= ceiling) return undefined;
+  return { ...request, gasPrice: bump(request.gasPrice, options.bumpBps, ceiling) };
+}
+
+/**
+ * A zero-value self-transfer at the request's nonce and fees
+ */
+function cancellation(request: TrackedTransactionRequest, to: Address): TrackedTransactionRequest {
+  const transfer = { to, value: 0n, gas: TRANSFER_GAS, nonce: request.nonce };
+  return request.maxFeePerGas !== undefined
+    ? { ...transfer, maxFeePerGas: request.maxFeePerGas, maxPriorityFeePerGas: request.maxPriorityFeePerGas }
+    : { ...transfer, gasPrice: request.gasPrice };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const errorMessage = (error: unknown) =>
+  error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+
+// ============ Tracker ============
+
+export class TransactionTracker {
+  private options: TransactionTrackerOptions;
+
+  constructor(
+    private client: PublicClient,
+    private sender: TransactionSender,
+    options: Partial<TransactionTrackerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Wait until a version of the transaction is mined, speeding it up (and
+   * cancelling it, if configured) while it is stuck
+   */
+  async track(sent: SentTransaction, hooks: TrackerHooks = {}): Promise<TrackedTransaction> {
+    const { nonce } = sent.request;
+    if (nonce === undefined) {
+      throw new Error(`Cannot track ${sent.hash}: the request has no nonce`);
+    }
+
+    const hashes: Hash[] = [sent.hash];
+    let cancelHash: Hash | undefined;
+    let request: TrackedTransactionRequest = sent.request;
+    // The latest version a node accepted, i.e. the one a replacement has to outbid
+    let accepted: TrackedTransactionRequest = sent.request;
+    let cancelAttempted = false;
+    let ceilingLogged = false;
+    let pollFailures = 0;
+    const startedAt = Date.now();
+    let lastBroadcastAt = startedAt;
+
+    for (;;) {
+      await sleep(this.options.pollIntervalMs);
+      const latest = hashes[hashes.length - 1];
+
+      let mined: TransactionReceipt | undefined;
+      let confirmedNonce: number | undefined;
+      try {
+        mined = await this.findReceipt(hashes);
+        if (!mined) {
+          confirmedNonce = await this.client.getTransactionCount({
+            address: this.sender.address,
+            blockTag: 'latest',
+          });
+          // A version may have been mined between the two reads
+          if (confirmedNonce > nonce) mined = await this.findReceipt(hashes);
+        }
+      } catch (error) {
+        // The transaction is still out there; a flaky RPC only delays finding out
+        pollFailures++;
+        console.warn(
+          `   ⚠️ Could not check ${latest} (${pollFailures}/${this.options.maxPollFailures}):`,
+          errorMessage(error)
+        );
+        if (pollFailures >= this.options.maxPollFailures) {
+          throw new TransactionTrackingError(
+            `Stopped tracking nonce ${nonce} after ${pollFailures} failed polls: ${errorMessage(error)}`,
+            nonce,
+            hashes,
+            error
+          );
+        }
+        continue;
+      }
+      pollFailures = 0;
+
+      if (mined) {
+        return { receipt: mined, hash: mined.transactionHash, hashes, cancelled: mined.transactionHash === cancelHash };
+      }
+      // Something else took the nonce (e.g. a transaction sent elsewhere)
+      if (confirmedNonce! > nonce) {
+        throw new Error(`Nonce ${nonce} was used by a transaction other than ${hashes.join(', ')}`);
+      }
+
+      const now = Date.now();
+      if (now - startedAt >= this.options.timeoutMs) {
+        throw new TransactionTrackingError(
+          ceilingLogged
+            ? `${latest} is stuck at the fee ceiling; stopped tracking nonce ${nonce} after ${now - startedAt}ms`
+            : `${latest} is still pending; stopped tracking nonce ${nonce} after ${now - startedAt}ms`,
+          nonce,
+          hashes
+        );
+      }
+
+      const dueForCancel =
+        !cancelHash && this.options.cancelAfterMs !== undefined && now - startedAt >= this.options.cancelAfterMs;
+      // The first cancellation goes out right away, retries wait like speed-ups
+      if (!(dueForCancel && !cancelAttempted) && now - lastBroadcastAt < this.options.bumpAfterMs) continue;
+
+      // A replacement (cancellation included) has to outbid the pending
+      // version. A speed-up rejected at the ceiling doesn't stop the
+      // cancellation: it still outbids the accepted version at the ceiling fee
+      const bumped = bumpFees(request, this.options) ?? (dueForCancel ? bumpFees(accepted, this.options) : undefined);
+      if (!bumped) {
+        if (!ceilingLogged) {
+          console.log(`   ⛽ ${latest} is at the fee ceiling (${this.options.maxFeePerGas} wei), waiting`);
+          ceilingLogged = true;
+        }
+        continue;
+      }
+
+      // Once cancelled, only the self-transfer is sped up
+      const cancel = dueForCancel || cancelHash !== undefined;
+      console.log(
+        cancel
+          ? `   🛑 ${latest} pending for ${now - startedAt}ms, cancelling nonce ${nonce}`
+          : `   ⏫ ${latest} stuck for ${now - lastBroadcastAt}ms, re-broadcasting with higher fees`
+      );
+      const replacement = cancel ? cancellation(bumped, this.sender.address) : bumped;
+
+      const hash = await this.broadcast(replacement);
+      lastBroadcastAt = now;
+      if (dueForCancel) cancelAttempted = true;
+      // Raise the base even when rejected, so the next attempt bids higher
+      request = bumped;
+      if (hash) {
+        accepted = bumped;
+        hashes.push(hash);
+        if (cancel) cancelHash = hash;
+        hooks.onReplaced?.(hash, latest, cancel ? 'cancel' : 'speed-up');
+      }
+    }
+  }
+
+  /**
+   * Send a replacement; a rejection (e.g. underpriced) just means waiting on
+   * the versions already broadcast
+   */
+  private async broadcast(request: TrackedTransactionRequest): Promise<Hash | undefined> {
+    try {
+      return await this.sender.send(request);
+    } catch (error) {
+      console.warn(`   ⚠️ Replacement not accepted:`, errorMessage(error));
+      return undefined;
+    }
+  }
+
+  private async findReceipt(hashes: Hash[]): Promise<TransactionReceipt | undefined> {
+    for (const hash of [...hashes].reverse()) {
+      try {
+        return await this.client.getTransactionReceipt({ hash });
+      } catch (error) {
+        if (!(error instanceof TransactionReceiptNotFoundError)) throw error;
+      }
+    }
+    return undefined;
+  }
+}
@@ -5,6 +5,7 @@ import "forge-std/Script.sol";
 import "../src/ZeroGToken.sol";
 import "../src/StakingVault.sol";
 import "../src/UnstakeDelegate.sol";
+import "../src/RescueBatcher.sol";
 
 /**
  * @title Deploy
@@ -41,6 +42,10 @@ contract Deploy is Script {
         UnstakeDelegate delegate = new UnstakeDelegate();
         console.log("UnstakeDelegate deployed at:", address(delegate));
 
+        // 4. Deploy RescueBatcher
+        RescueBatcher batcher = new RescueBatcher();
+        console.log("RescueBatcher deployed at:", address(batcher));
+
         vm.stopBroadcast();
 
         // Output summary for .env file
@@ -48,5 +53,6 @@ contract Deploy is Script {
         console.log("ZERO_G_TOKEN_ADDRESS=", address(token));
         console.log("STAKING_VAULT_ADDRESS=", address(vault));
         console.log("UNSTAKE_DELEGATE_ADDRESS=", address(delegate));
+        console.log("RESCUE_BATCHER_ADDRESS=", address(batcher));
     }
 }
@@ -0,0 +1,133 @@
+/**
+ * NonceManager: reserve / confirm / release and resyncs from the node
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PublicClient } from 'viem';
+import { NonceManager, getNonceManager, withReservedNonce, type NonceManagerRegistry } from '@zero-g/sdk';
+
+const RELAYER = '0x00000000000000000000000000000000000000aa';
+
+// The node's transaction counts; edit them to simulate the chain moving on
+function mockClient(counts: { pending: number; latest?: number }): PublicClient {
+  return {
+    chain: { id: 97 },
+    getTransactionCount: async ({ blockTag }: { blockTag: 'pending' | 'latest' }) =>
+      blockTag === 'latest' ? (counts.latest ?? counts.pending) : counts.pending,
+  } as unknown as PublicClient;
+}
+
+test('hands out consecutive nonces from the pending count', async () => {
+  const manager = new NonceManager(mockClient({ pending: 7 }), RELAYER);
+  const nonces = await Promise.all([manager.reserve(), manager.reserve(), manager.reserve()]);
+  assert.deepEqual(nonces, [7, 8, 9]);
+  assert.deepEqual(manager.getState().inFlight, [7, 8, 9]);
+});
+
+test('confirm moves a nonce from in flight to broadcast', async () => {
+  const manager = new NonceManager(mockClient({ pending: 3 }), RELAYER);
+  const nonce = await manager.reserve();
+  manager.confirm(nonce);
+  assert.deepEqual(manager.getState().inFlight, []);
+  assert.deepEqual(manager.getState().broadcast, [3]);
+});
+
+test('releasing the latest nonce rolls the counter back', async () => {
+  const manager = new NonceManager(mockClient({ pending: 3 }), RELAYER);
+  const nonce = await manager.reserve();
+  await manager.release(nonce);
+  assert.equal(await manager.reserve(), 3);
+});
+
+test('a released nonce below the counter is reused before new ones', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const manager = new NonceManager(mockClient({ pending: 3 }), RELAYER);
+  const [first, second] = [await manager.reserve(), await manager.reserve()];
+  manager.confirm(second);
+  await manager.release(first);
+  assert.deepEqual(manager.getState().gaps, [3]);
+  assert.equal(await manager.reserve(), 3);
+  assert.equal(await manager.reserve(), 5);
+});
+
+test('a resync turns dropped nonces into gaps and rolls back trailing ones', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const counts = { pending: 5 };
+  const manager = new NonceManager(mockClient(counts), RELAYER);
+  const nonces = [await manager.reserve(), await manager.reserve(), await manager.reserve()];
+  nonces.forEach((nonce) => manager.confirm(nonce));
+
+  // 5 was dropped from the mempool; 6 and 7 are stuck behind it
+  await manager.resync();
+  assert.deepEqual(manager.getState().gaps, [5]);
+  assert.equal(await manager.reserve(), 5);
+
+  // Everything dropped: the counter rolls back to the pending count
+  const idle = new NonceManager(mockClient({ pending: 2 }), RELAYER);
+  idle.confirm(await idle.reserve());
+  await idle.resync();
+  assert.equal(idle.getState().nextNonce, 2);
+  assert.deepEqual(idle.getState().gaps, []);
+});
+
+test('a resync skips nonces used by another sender', async () => {
+  const counts = { pending: 4 };
+  const manager = new NonceManager(mockClient(counts), RELAYER);
+  manager.confirm(await manager.reserve());
+  counts.pending = 9;
+  await manager.resync();
+  assert.equal(await manager.reserve(), 9);
+  assert.deepEqual(manager.getState().broadcast, []);
+});
+
+test('a nonce error on release resyncs from the node', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const counts = { pending: 1 };
+  const manager = new NonceManager(mockClient(counts), RELAYER);
+  const nonce = await manager.reserve();
+  counts.pending = 6;
+  await manager.release(nonce, new Error('nonce too low'));
+  assert.equal(await manager.reserve(), 6);
+});
+
+test('privately sent nonces are not treated as dropped', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const counts = { pending: 10, latest: 10 };
+  const manager = new NonceManager(mockClient(counts), RELAYER);
+  const nonce = await manager.reserve();
+  manager.confirm(nonce);
+  manager.markPrivate(nonce);
+
+  await manager.resync();
+  assert.deepEqual(manager.getState().gaps, []);
+  assert.deepEqual(manager.getState().privatePending, [10]);
+
+  // Mined: the hold is released
+  counts.pending = counts.latest = 11;
+  await manager.resync();
+  assert.deepEqual(manager.getState().privatePending, []);
+});
+
+test('withReservedNonce confirms on success and releases on failure', async () => {
+  const manager = new NonceManager(mockClient({ pending: 0 }), RELAYER);
+  assert.equal(await withReservedNonce(manager, async (nonce) => `sent ${nonce}`), 'sent 0');
+  assert.deepEqual(manager.getState().broadcast, [0]);
+
+  await assert.rejects(
+    withReservedNonce(manager, async () => {
+      throw new Error('insufficient funds');
+    }),
+    /insufficient funds/
+  );
+  assert.deepEqual(manager.getState().inFlight, []);
+  assert.equal(await manager.reserve(), 1);
+});
+
+test('getNonceManager shares one manager per chain and account', () => {
+  const registry: NonceManagerRegistry = new Map();
+  const client = mockClient({ pending: 0 });
+  const manager = getNonceManager(client, RELAYER, registry);
+  assert.equal(getNonceManager(client, RELAYER.toUpperCase().replace('0X', '0x') as `0x${string}`, registry), manager);
+  assert.notEqual(getNonceManager(client, '0x00000000000000000000000000000000000000bb', registry), manager);
+});
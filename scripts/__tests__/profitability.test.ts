@@ -0,0 +1,94 @@
+/**
+ * Profitability: the minimum-profit threshold and dust cutoff
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseEther, parseGwei, type Address, type PublicClient } from 'viem';
+import {
+  FixedPriceSource,
+  evaluateBatchProfitability,
+  evaluateProfitability,
+  type PriceSource,
+} from '../utils/profitability';
+
+const TOKEN: Address = '0x00000000000000000000000000000000000000aa';
+const OTHER_TOKEN: Address = '0x00000000000000000000000000000000000000bb';
+
+// 100k gas at 1 gwei: 0.0001 BNB
+const GAS = 100_000n;
+const GAS_PRICE = parseGwei('1');
+const GAS_COST = GAS * GAS_PRICE;
+
+const client = { getGasPrice: async () => GAS_PRICE } as unknown as PublicClient;
+
+// One token is worth one BNB, so fees below are in BNB wei too
+const params = {
+  token: TOKEN,
+  gas: GAS,
+  minProfitBps: 50,
+  priceSource: new FixedPriceSource(parseEther('1')),
+};
+
+test('executes a rescue whose margin meets the minimum exactly', async () => {
+  const estimate = await evaluateProfitability(client, { ...params, feeTokens: (GAS_COST * 10050n) / 10000n });
+  assert.equal(estimate.decision, 'execute');
+  assert.equal(estimate.profitBps, 50);
+  assert.equal(estimate.gasCostWei, GAS_COST);
+});
+
+test('defers a rescue just below the minimum margin', async () => {
+  const estimate = await evaluateProfitability(client, { ...params, feeTokens: (GAS_COST * 10049n) / 10000n });
+  assert.equal(estimate.decision, 'defer');
+  assert.equal(estimate.profitBps, 49);
+  assert.match(estimate.reason, /Below profit threshold \(0\.49% margin, need 0\.50%\)/);
+});
+
+test('defers a loss-making rescue whose fee still covers a tenth of the gas', async () => {
+  const estimate = await evaluateProfitability(client, { ...params, feeTokens: GAS_COST / 10n });
+  assert.equal(estimate.decision, 'defer');
+  assert.equal(estimate.profitBps, -9000);
+});
+
+test('skips dust whose fee covers under a tenth of the gas', async () => {
+  const estimate = await evaluateProfitability(client, { ...params, feeTokens: GAS_COST / 10n - 1n });
+  assert.equal(estimate.decision, 'skip');
+  assert.match(estimate.reason, /^Dust stake/);
+});
+
+test('executes when gas is free', async () => {
+  const estimate = await evaluateProfitability(client, { ...params, feeTokens: 1n, gasPrice: 0n });
+  assert.equal(estimate.decision, 'execute');
+  assert.equal(estimate.profitBps, null);
+});
+
+test('values fees by token decimals and price', async () => {
+  // 6-decimal token worth 0.5 BNB: 0.0004 tokens = 0.0002 BNB, twice the gas cost
+  const estimate = await evaluateProfitability(client, {
+    ...params,
+    tokenDecimals: 6,
+    feeTokens: 400n,
+    priceSource: new FixedPriceSource(parseEther('0.5')),
+  });
+  assert.equal(estimate.feeValueWei, 2n * GAS_COST);
+  assert.equal(estimate.profitBps, 10000);
+});
+
+test('adds up every vault fee of a batch against the one transaction', async () => {
+  const prices: PriceSource = {
+    name: 'test',
+    getTokenPriceInNative: async (token) => (token === TOKEN ? parseEther('1') : parseEther('2')),
+  };
+  const estimate = await evaluateBatchProfitability(client, {
+    gas: GAS,
+    minProfitBps: 50,
+    priceSource: prices,
+    fees: [
+      { token: TOKEN, feeTokens: GAS_COST / 2n },
+      { token: OTHER_TOKEN, feeTokens: GAS_COST / 4n },
+    ],
+  });
+  assert.equal(estimate.feeValueWei, GAS_COST);
+  assert.equal(estimate.feeTokens, (GAS_COST * 3n) / 4n);
+  assert.equal(estimate.decision, 'defer');
+});
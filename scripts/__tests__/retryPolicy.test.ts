@@ -0,0 +1,42 @@
+/**
+ * Retry policy: backoff schedule and dead-letter cutoff
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRetryDelay, isRetryExhausted, type RetryPolicy } from '../utils/retryPolicy';
+
+const POLICY: RetryPolicy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 10_000 };
+
+test('doubles the delay after each failure, up to the maximum', (t) => {
+  // No jitter
+  t.mock.method(Math, 'random', () => 0.5);
+  assert.deepEqual(
+    [1, 2, 3, 4, 5, 6].map((attempts) => getRetryDelay(POLICY, attempts)),
+    [1000, 2000, 4000, 8000, 10_000, 10_000]
+  );
+});
+
+test('treats no failures like the first', (t) => {
+  t.mock.method(Math, 'random', () => 0.5);
+  assert.equal(getRetryDelay(POLICY, 0), 1000);
+});
+
+test('jitters the delay by up to 10% either way', (t) => {
+  const random = t.mock.method(Math, 'random', () => 0);
+  assert.equal(getRetryDelay(POLICY, 2), 1800);
+  random.mock.mockImplementation(() => 1);
+  assert.equal(getRetryDelay(POLICY, 2), 2200);
+});
+
+test('never jitters past the maximum delay', (t) => {
+  t.mock.method(Math, 'random', () => 1);
+  assert.equal(getRetryDelay(POLICY, 10), POLICY.maxDelayMs);
+});
+
+test('dead-letters once failures reach maxAttempts', () => {
+  assert.equal(isRetryExhausted(POLICY, 4), false);
+  assert.equal(isRetryExhausted(POLICY, 5), true);
+  assert.equal(isRetryExhausted(POLICY, 6), true);
+  assert.equal(isRetryExhausted({ ...POLICY, maxAttempts: 1 }, 1), true);
+});
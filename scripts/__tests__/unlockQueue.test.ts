@@ -0,0 +1,87 @@
+/**
+ * UnlockQueue: ordering by unlock time, rescheduling and removal
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UnlockQueue } from '../utils/unlockQueue';
+
+const VAULT = '0x00000000000000000000000000000000000000f0';
+const OTHER_VAULT = '0x00000000000000000000000000000000000000f1';
+const user = (n: number) => `0x${n.toString(16).padStart(40, '0')}` as `0x${string}`;
+
+test('pops due registrations in unlock order', () => {
+  const queue = new UnlockQueue();
+  const times = [50n, 10n, 40n, 20n, 30n, 60n];
+  times.forEach((time, i) => queue.schedule(user(i), VAULT, time));
+
+  assert.equal(queue.peek()?.unlockTime, 10n);
+  const due = queue.popDue(40n);
+  assert.deepEqual(
+    due.map((entry) => entry.unlockTime),
+    [10n, 20n, 30n, 40n]
+  );
+  assert.equal(queue.size, 2);
+  assert.equal(queue.peek()?.unlockTime, 50n);
+});
+
+test('leaves registrations that unlock later', () => {
+  const queue = new UnlockQueue();
+  queue.schedule(user(1), VAULT, 100n);
+  assert.deepEqual(queue.popDue(99n), []);
+  assert.equal(queue.size, 1);
+});
+
+test('respects the pop limit', () => {
+  const queue = new UnlockQueue();
+  for (let i = 0; i < 5; i++) queue.schedule(user(i), VAULT, BigInt(i));
+  assert.deepEqual(
+    queue.popDue(10n, 2).map((entry) => entry.userAddress),
+    [user(0), user(1)]
+  );
+  assert.equal(queue.size, 3);
+});
+
+test('rescheduling moves a registration instead of duplicating it', () => {
+  const queue = new UnlockQueue();
+  queue.schedule(user(1), VAULT, 10n);
+  queue.schedule(user(2), VAULT, 20n);
+  queue.schedule(user(1), VAULT, 30n);
+
+  assert.equal(queue.size, 2);
+  assert.deepEqual(queue.peek(), { userAddress: user(2), vaultAddress: VAULT, unlockTime: 20n });
+
+  // Moved back to its first time: still only one entry comes out
+  queue.schedule(user(1), VAULT, 10n);
+  assert.deepEqual(
+    queue.popDue(100n).map((entry) => [entry.userAddress, entry.unlockTime]),
+    [
+      [user(1), 10n],
+      [user(2), 20n],
+    ]
+  );
+  assert.equal(queue.peek(), undefined);
+});
+
+test('removed registrations are skipped', () => {
+  const queue = new UnlockQueue();
+  queue.schedule(user(1), VAULT, 10n);
+  queue.schedule(user(2), VAULT, 20n);
+  queue.remove(user(1).toUpperCase().replace('0X', '0x'), VAULT);
+
+  assert.equal(queue.has(user(1), VAULT), false);
+  assert.equal(queue.size, 1);
+  assert.equal(queue.peek()?.userAddress, user(2));
+});
+
+test('keys entries by user and vault', () => {
+  const queue = new UnlockQueue();
+  queue.schedule(user(1), VAULT, 20n);
+  queue.schedule(user(1), OTHER_VAULT, 10n);
+
+  assert.equal(queue.size, 2);
+  assert.deepEqual(
+    queue.popDue(20n).map((entry) => entry.vaultAddress),
+    [OTHER_VAULT, VAULT]
+  );
+});
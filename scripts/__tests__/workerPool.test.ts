@@ -0,0 +1,51 @@
+/**
+ * runPool: bounded concurrency, input-ordered results, isolated failures
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runPool } from '../utils/workerPool';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('never runs more than `concurrency` tasks at once', async () => {
+  let running = 0;
+  let peak = 0;
+  await runPool([...Array(10).keys()], 3, async () => {
+    peak = Math.max(peak, ++running);
+    await sleep(5);
+    running--;
+  });
+  assert.equal(peak, 3);
+});
+
+test('returns results in input order whatever order tasks finish in', async () => {
+  const results = await runPool([30, 10, 20], 3, async (ms, index) => {
+    await sleep(ms);
+    return index;
+  });
+  assert.deepEqual(
+    results.map((result) => result.status === 'fulfilled' && result.value),
+    [0, 1, 2]
+  );
+});
+
+test('a failing task does not stop the others', async () => {
+  const results = await runPool([1, 2, 3], 1, async (n) => {
+    if (n === 2) throw new Error('boom');
+    return n;
+  });
+  assert.deepEqual(
+    results.map((result) => result.status),
+    ['fulfilled', 'rejected', 'fulfilled']
+  );
+  assert.match(String((results[1] as PromiseRejectedResult).reason), /boom/);
+});
+
+test('runs at least one worker and handles no items', async () => {
+  assert.deepEqual(
+    (await runPool([1, 2], 0, async (n) => n * 2)).map((result) => result.status === 'fulfilled' && result.value),
+    [2, 4]
+  );
+  assert.deepEqual(await runPool([], 4, async () => 1), []);
+});
@@ -8,10 +8,15 @@
  * When both conditions are met, it automatically executes the rescue.
  * 
  * Architecture:
- * - Monitors StakingVault for Staked events
- * - Stores pre-signed authorizations from users
- * - Periodically checks for rescuable stakes
- * - Executes rescue when eligible
+ * - Subscribes to Staked/Unstaked events of every supported StakingVault
+ * - Stores pre-signed authorizations from users, per (user, vault)
+ * - Keeps registered users in a queue ordered by unlock time and sleeps
+ *   until the earliest one unlocks
+ * - Executes rescue when eligible; a user with several unlocked vaults is
+ *   rescued from all of them in one executeBatchRescue transaction, and with
+ *   RESCUE_BATCHER_ADDRESS set, users unlocking together share one
+ *   RescueBatcher transaction (falling back to per-user rescues on revert)
+ * - Periodically re-syncs the queue from chain in case events were missed
  * 
  * Usage: npm run bot
  */
@@ -22,154 +27,371 @@ import {
   formatEther,
   parseEther,
   encodeFunctionData,
+  isAddress,
+  isAddressEqual,
   type Hex,
+  type LocalAccount,
   type Log,
 } from 'viem';
 import {
-  bscTestnet,
-  getRelayerAccount,
-  getContractAddresses,
-} from './utils/config';
-import {
+  RescueBatcherABI,
   StakingVaultABI,
   UnstakeDelegateABI,
   ZeroGTokenABI,
-} from './utils/abis';
+  DEFAULT_RESCUE_GAS,
+  buildRescueTransaction,
+  RescueGasEstimationRevertedError,
+  estimateRescueGas,
+  checkAuthorization,
+  decodeRescueRevert,
+  isDelegatedTo,
+  simulateBatchRescue,
+  simulateBatcherRescue,
+  simulateRescue,
+  decodeRescueBreakdown,
+  ConfigError,
+  TransactionTracker,
+  TransactionTrackingError,
+  type AuthorizationTuple,
+  type RescueRejection,
+  type VaultRescueResult,
+} from '@zero-g/sdk';
+import {
+  activeChain,
+  activeDeployment,
+  getRelayerAccount,
+  getContractAddresses,
+  getSupportedVaults,
+  findSupportedVault,
+} from './utils/config';
 import {
   createMevProtectedRelayer,
+  getMevProtectionConfigFromEnv,
+  type MevProtectedRelayer,
   type MevProtectionConfig,
+  type ProtectedTransactionRequest,
 } from './utils/mevProtection';
+import { getSignerAddress } from './utils/signers';
+import { loadConfig } from './utils/configLoader';
+import { UnlockQueue } from './utils/unlockQueue';
+import { runPool } from './utils/workerPool';
+import {
+  createRegistrationStore,
+  lockRegistrationStore,
+  StoreLockedError,
+  REGISTRATION_STATUSES,
+  type RegisteredUser,
+  type RegistrationStatus,
+  type RegistrationStore,
+  type RescueAttempt,
+} from './utils/registrationStore';
+import { StoreCipher, createStoreCipherFromEnv } from './utils/storeEncryption';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryExhausted,
+  type RetryPolicy,
+} from './utils/retryPolicy';
+import {
+  createReauthorizationHookFromEnv,
+  type ReauthorizationHook,
+} from './utils/reauthorization';
+import {
+  createPriceSourceFromEnv,
+  evaluateBatchProfitability,
+  evaluateProfitability,
+  DEFAULT_MIN_PROFIT_BPS,
+  type PriceSource,
+} from './utils/profitability';
+import {
+  InvalidRescueRequestError,
+  parseAuthorizationTuple,
+  parseRescueRequest,
+  toAuthorizationTuple,
+} from './utils/rescueRequest';
+import { formatTimestamp, printTable, toJson } from './utils/cliOutput';
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseArgs } from 'util';
 
 // ============ Types ============
 
-interface SignedAuthorization {
-  address: `0x${string}`;
-  chainId: number;
-  nonce: number;
-  r: `0x${string}`;
-  s: `0x${string}`;
-  yParity: number;
-}
-
-interface RegisteredUser {
-  userAddress: `0x${string}`;
-  authorization: SignedAuthorization;
-  maxFeeBps: number;
-  registeredAt: number;
-  lastChecked?: number;
-  rescued?: boolean;
-  rescueTxHash?: string;
-}
-
 interface StakeInfo {
   userAddress: `0x${string}`;
+  vaultAddress: `0x${string}`;
   amount: bigint;
   unlockTime: bigint;
   canRescue: boolean;
 }
 
+interface RescueResult {
+  success: boolean;
+  txHash?: string;
+  // Earlier versions of txHash, replaced while stuck
+  replacedTxHashes?: string[];
+  error?: string;
+  // Not a failure: the rescue isn't possible or worthwhile yet
+  deferred?: boolean;
+  // Amounts unstaked per vault by the confirmed transaction
+  breakdown?: VaultRescueResult[];
+}
+
 interface BotConfig {
+  // Fallback sweep re-reading every pending user's stake from chain
   checkIntervalMs: number;
+  // Delay before re-checking a deferred rescue (still locked, unprofitable)
+  retryDelayMs: number;
+  // Backoff and dead-lettering for failed rescues
+  retryPolicy: RetryPolicy;
   maxConcurrentRescues: number;
+  // Most rescues (user vaults) bundled into one RescueBatcher transaction
+  maxBatchRescues: number;
   minProfitBps: number;
+  // Token price oracle for the profitability check (disabled when unset)
+  priceSource?: PriceSource;
+  // How long to leave a dust stake alone after skipping it
+  skipCooldownMs: number;
+  // Asks users with an expired authorization to re-sign
+  onAuthorizationExpired?: ReauthorizationHook;
   mevProtection: Partial<MevProtectionConfig>;
 }
 
 // ============ Constants ============
 
 const DEFAULT_CONFIG: BotConfig = {
-  checkIntervalMs: 30000, // Check every 30 seconds
+  checkIntervalMs: 5 * 60 * 1000, // Re-sync every 5 minutes
+  retryDelayMs: 30000,
+  retryPolicy: DEFAULT_RETRY_POLICY,
   maxConcurrentRescues: 5,
-  minProfitBps: 50, // Minimum 0.5% profit to execute
-  mevProtection: {
-    enabled: true,
-    provider: 'mev-blocker',
-    fallbackToPublic: true,
-  },
+  maxBatchRescues: parseInt(process.env.BOT_MAX_BATCH_RESCUES || '10', 10),
+  minProfitBps: parseInt(process.env.MIN_PROFIT_BPS || String(DEFAULT_MIN_PROFIT_BPS), 10), // Minimum 0.5% profit to execute
+  skipCooldownMs: 60 * 60 * 1000, // Re-check skipped stakes hourly
+  mevProtection: getMevProtectionConfigFromEnv(),
 };
 
+// Recorded when a stuck rescue was replaced by a self-transfer
+const CANCELLED_ERROR = 'Rescue cancelled after staying pending too long';
+
+// Default max fee users accept, in bps of their stake (2%)
+const DEFAULT_MAX_FEE_BPS = 200;
+
+// Parallel stake/nonce reads when re-syncing the queue
+const SYNC_CONCURRENCY = 10;
+
+// setTimeout can't wait longer than ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
 const DATA_DIR = path.join(process.cwd(), '.bot-data');
-const REGISTRATIONS_FILE = path.join(DATA_DIR, 'registrations.json');
 
 // ============ Storage ============
 
 /**
- * Simple file-based storage for registered users
- * In production, use a database like PostgreSQL/Redis
+ * Registered users, persisted through a RegistrationStore
+ * (SQLite by default, see utils/registrationStore.ts)
  */
 class UserRegistry {
-  private users: Map<string, RegisteredUser> = new Map();
+  private store: RegistrationStore;
 
-  constructor() {
-    this.loadFromDisk();
+  constructor(
+    store: RegistrationStore = createRegistrationStore(DATA_DIR, { legacyVault: getContractAddresses().vault })
+  ) {
+    this.store = store;
+    console.log(
+      `📂 Loaded ${this.store.getAll().length} registered users (${this.store.kind}${this.store.encrypted ? ', encrypted' : ''})`
+    );
   }
 
-  private loadFromDisk(): void {
-    try {
-      if (fs.existsSync(REGISTRATIONS_FILE)) {
-        const data = JSON.parse(fs.readFileSync(REGISTRATIONS_FILE, 'utf-8'));
-        for (const user of data) {
-          this.users.set(user.userAddress.toLowerCase(), user);
-        }
-        console.log(`📂 Loaded ${this.users.size} registered users from disk`);
-      }
-    } catch (error) {
-      console.warn('⚠️ Could not load registrations:', error);
-    }
-  }
-
-  private saveToDisk(): void {
-    try {
-      if (!fs.existsSync(DATA_DIR)) {
-        fs.mkdirSync(DATA_DIR, { recursive: true });
-      }
-      const data = Array.from(this.users.values());
-      fs.writeFileSync(REGISTRATIONS_FILE, JSON.stringify(data, null, 2));
-    } catch (error) {
-      console.error('❌ Could not save registrations:', error);
-    }
+  register(user: RegisteredUser): void {
+    this.store.save(user);
+    console.log(`✅ Registered user ${user.userAddress} for auto-unstake on vault ${user.vaultAddress}`);
   }
 
-  register(user: RegisteredUser): void {
-    this.users.set(user.userAddress.toLowerCase(), user);
-    this.saveToDisk();
-    console.log(`✅ Registered user ${user.userAddress} for auto-unstake`);
+  unregister(userAddress: string, vaultAddress: string): void {
+    this.store.delete(userAddress, vaultAddress);
   }
 
-  unregister(userAddress: string): void {
-    this.users.delete(userAddress.toLowerCase());
-    this.saveToDisk();
+  get(userAddress: string, vaultAddress: string): RegisteredUser | undefined {
+    return this.store.get(userAddress, vaultAddress);
   }
 
-  get(userAddress: string): RegisteredUser | undefined {
-    return this.users.get(userAddress.toLowerCase());
+  getForUser(userAddress: string): RegisteredUser[] {
+    return this.store.getForUser(userAddress);
   }
 
   getAll(): RegisteredUser[] {
-    return Array.from(this.users.values());
+    return this.store.getAll();
   }
 
   getPending(): RegisteredUser[] {
-    return this.getAll().filter(u => !u.rescued);
+    return this.store.getPending();
   }
 
-  markRescued(userAddress: string, txHash: string): void {
-    const user = this.get(userAddress);
+  markRescued(userAddress: string, vaultAddress: string, txHash: string): void {
+    const user = this.get(userAddress, vaultAddress);
     if (user) {
-      user.rescued = true;
+      user.status = 'rescued';
       user.rescueTxHash = txHash;
-      this.saveToDisk();
+      this.store.save(user);
+    }
+  }
+
+  markExpired(userAddress: string, vaultAddress: string, reason: string): void {
+    const user = this.get(userAddress, vaultAddress);
+    if (user) {
+      user.status = 'expired';
+      user.statusReason = reason;
+      this.store.save(user);
+    }
+  }
+
+  recordFailure(userAddress: string, vaultAddress: string, failedAttempts: number, error: string, nextAttemptAt: number): void {
+    const user = this.get(userAddress, vaultAddress);
+    if (user) {
+      user.failedAttempts = failedAttempts;
+      user.lastError = error;
+      user.nextAttemptAt = nextAttemptAt;
+      this.store.save(user);
     }
   }
 
-  updateLastChecked(userAddress: string): void {
-    const user = this.get(userAddress);
+  markDeadLetter(userAddress: string, vaultAddress: string, failedAttempts: number, error: string): void {
+    const user = this.get(userAddress, vaultAddress);
+    if (user) {
+      user.status = 'dead-letter';
+      user.statusReason = error;
+      user.failedAttempts = failedAttempts;
+      user.lastError = error;
+      user.nextAttemptAt = undefined;
+      this.store.save(user);
+    }
+  }
+
+  /**
+   * Move a dead-lettered user back to pending with a fresh retry budget
+   */
+  requeue(userAddress: string, vaultAddress: string): RegisteredUser | undefined {
+    const user = this.get(userAddress, vaultAddress);
+    if (user && user.status === 'dead-letter') {
+      user.status = 'pending';
+      user.statusReason = undefined;
+      user.failedAttempts = 0;
+      user.nextAttemptAt = undefined;
+      this.store.save(user);
+      return user;
+    }
+    return undefined;
+  }
+
+  getDeadLettered(): RegisteredUser[] {
+    return this.store.getByStatus('dead-letter');
+  }
+
+  getByStatus(status: RegistrationStatus): RegisteredUser[] {
+    return this.store.getByStatus(status);
+  }
+
+  updateLastChecked(userAddress: string, vaultAddress: string): void {
+    const user = this.get(userAddress, vaultAddress);
     if (user) {
       user.lastChecked = Date.now();
+      this.store.save(user);
     }
   }
+
+  recordAttempt(attempt: RescueAttempt): void {
+    this.store.recordAttempt(attempt);
+  }
+
+  getAttempts(userAddress: string, vaultAddress?: string): RescueAttempt[] {
+    return this.store.getAttempts(userAddress, vaultAddress);
+  }
+
+  rekey(cipher: StoreCipher | undefined): number {
+    return this.store.rekey(cipher);
+  }
+
+  close(): void {
+    this.store.close();
+  }
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Whether an authorization problem is permanent (the user must re-sign)
+ * An authorization signed for a future nonce may still become usable
+ */
+function isAuthorizationExpired(
+  rejection: RescueRejection,
+  authorization: AuthorizationTuple,
+  delegate: `0x${string}`
+): boolean {
+  switch (rejection.code) {
+    case 'WRONG_DELEGATE':
+      // Also raised when the delegate itself isn't deployed (our problem)
+      return !isAddressEqual(authorization.address, delegate);
+    case 'WRONG_CHAIN':
+    case 'SIGNER_MISMATCH':
+      return true;
+    case 'STALE_AUTHORIZATION':
+      return Number(rejection.details?.accountNonce) > authorization.nonce;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Key for per-registration bookkeeping (in-flight rescues, skip cooldowns)
+ */
+function registrationKey(user: Pick<RegisteredUser, 'userAddress' | 'vaultAddress'>): string {
+  return `${user.userAddress.toLowerCase()}:${user.vaultAddress.toLowerCase()}`;
+}
+
+/**
+ * The supported vault a registration targets, or an error if it was removed
+ * from SUPPORTED_VAULTS after the user registered
+ */
+function requireSupportedVault(vaultAddress: string) {
+  const vault = findSupportedVault(vaultAddress);
+  if (!vault) {
+    throw new Error(`Vault ${vaultAddress} is not in SUPPORTED_VAULTS`);
+  }
+  return vault;
+}
+
+/**
+ * Group registrations by user, keeping the input order within each group
+ */
+function groupByUser(users: RegisteredUser[]): RegisteredUser[][] {
+  const groups: Map<string, RegisteredUser[]> = new Map();
+  for (const user of users) {
+    const key = user.userAddress.toLowerCase();
+    groups.set(key, [...(groups.get(key) ?? []), user]);
+  }
+  return Array.from(groups.values());
+}
+
+function logBreakdown(breakdown: VaultRescueResult[]): void {
+  for (const vault of breakdown) {
+    console.log(
+      `   🏦 ${vault.vaultAddress}: unstaked ${formatEther(vault.totalUnstaked)}, fee ${formatEther(vault.relayerFee)}, user ${formatEther(vault.userReceived)}`
+    );
+  }
+}
+
+/**
+ * The tracker lost sight of a rescue that may still be mined: deferred rather
+ * than failed, so it doesn't count toward dead-lettering
+ */
+function untrackedResult(error: TransactionTrackingError): RescueResult {
+  console.warn(`   ⚠️ ${error.message}`);
+  return {
+    success: false,
+    txHash: error.hashes[error.hashes.length - 1],
+    replacedTxHashes: error.hashes.slice(0, -1),
+    error: `${error.message}; the transaction may still be mined`,
+    deferred: true,
+  };
 }
 
 // ============ Auto-Unstake Bot ============
@@ -178,58 +400,102 @@ class AutoUnstakeBot {
   private config: BotConfig;
   private registry: UserRegistry;
   private publicClient;
-  private relayerAccount;
+  // Loaded by loadRelayerSigner(); only rescues need it
+  private relayerSigner?: LocalAccount;
   private contracts;
   private isRunning = false;
   private intervalId?: NodeJS.Timeout;
+  private wakeTimer?: NodeJS.Timeout;
+  private unwatchEvents?: () => void;
+  // Held while running, see lockRegistrationStore
+  private releaseStoreLock?: () => void;
+  private unlockQueue = new UnlockQueue();
+  // Guards against overlapping cycles when one outlasts its interval
+  private processing = false;
+  private checking = false;
+  private sweeping = false;
+  // Registrations (user:vault) with a rescue currently running
+  private inFlight: Set<string> = new Set();
+  // Unprofitable (dust) registrations and when they may be retried
+  private skippedUntil: Map<string, number> = new Map();
 
   constructor(config: Partial<BotConfig> = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      priceSource: config.priceSource ?? createPriceSourceFromEnv(),
+      onAuthorizationExpired: config.onAuthorizationExpired ?? createReauthorizationHookFromEnv(),
+    };
     this.registry = new UserRegistry();
-    this.relayerAccount = getRelayerAccount();
     this.contracts = getContractAddresses();
 
     this.publicClient = createPublicClient({
-      chain: bscTestnet,
+      chain: activeChain,
       transport: http(),
     });
   }
 
+  /**
+   * Load the relayer's signer (may prompt for a keystore passphrase)
+   */
+  async loadRelayerSigner(): Promise<void> {
+    this.relayerSigner ??= await getRelayerAccount();
+  }
+
+  private get relayerAccount(): LocalAccount {
+    if (!this.relayerSigner) {
+      throw new Error('Relayer signer not loaded (call loadRelayerSigner first)');
+    }
+    return this.relayerSigner;
+  }
+
   /**
    * Register a user for auto-unstake
    */
   registerUser(
     userAddress: `0x${string}`,
-    authorization: SignedAuthorization,
-    maxFeeBps: number = 200
+    vaultAddress: `0x${string}`,
+    authorization: AuthorizationTuple,
+    maxFeeBps: number = DEFAULT_MAX_FEE_BPS
   ): void {
+    const vault = findSupportedVault(vaultAddress);
+    if (!vault) {
+      throw new InvalidRescueRequestError(`Vault ${vaultAddress} is not supported by this bot`);
+    }
+
     this.registry.register({
       userAddress,
+      vaultAddress: vault.address,
       authorization,
       maxFeeBps,
       registeredAt: Date.now(),
+      status: 'pending',
     });
+
+    if (this.isRunning) {
+      this.trackUser(this.registry.get(userAddress, vault.address)!).then(() => this.scheduleWake());
+    }
   }
 
   /**
-   * Get stake info for a user
+   * Get a user's stake info in a vault
    */
-  async getStakeInfo(userAddress: `0x${string}`): Promise<StakeInfo> {
+  async getStakeInfo(userAddress: `0x${string}`, vaultAddress: `0x${string}`): Promise<StakeInfo> {
     const [stakedBalance, unlockTime, canUnstake] = await Promise.all([
       this.publicClient.readContract({
-        address: this.contracts.vault,
+        address: vaultAddress,
         abi: StakingVaultABI,
         functionName: 'stakedBalance',
         args: [userAddress],
       }) as Promise<bigint>,
       this.publicClient.readContract({
-        address: this.contracts.vault,
+        address: vaultAddress,
         abi: StakingVaultABI,
         functionName: 'unlockTime',
         args: [userAddress],
       }) as Promise<bigint>,
       this.publicClient.readContract({
-        address: this.contracts.vault,
+        address: vaultAddress,
         abi: StakingVaultABI,
         functionName: 'canUnstake',
         args: [userAddress],
@@ -238,6 +504,7 @@ class AutoUnstakeBot {
 
     return {
       userAddress,
+      vaultAddress,
       amount: stakedBalance,
       unlockTime,
       canRescue: canUnstake && stakedBalance > 0n,
@@ -245,17 +512,159 @@ class AutoUnstakeBot {
   }
 
   /**
-   * Execute a rescue for a registered user
+   * Execute a rescue for a registered user and record the attempt
+   */
+  async executeRescue(user: RegisteredUser): Promise<RescueResult> {
+    const key = registrationKey(user);
+    if (this.inFlight.has(key)) {
+      return { success: false, error: 'Rescue already in progress', deferred: true };
+    }
+
+    this.inFlight.add(key);
+    let result: RescueResult;
+    try {
+      result = await this.attemptRescue(user);
+    } finally {
+      this.inFlight.delete(key);
+    }
+
+    this.recordResult(user, result);
+    return result;
+  }
+
+  /**
+   * Rescue several of one user's registrations in a single executeBatchRescue
+   * transaction and record an attempt for each; results follow input order
    */
-  async executeRescue(user: RegisteredUser): Promise<{ success: boolean; txHash?: string; error?: string }> {
-    console.log(`\n🚀 Executing rescue for ${user.userAddress}`);
+  async executeBatchRescue(users: RegisteredUser[]): Promise<RescueResult[]> {
+    const keys = users.map(registrationKey);
+    if (keys.some((key) => this.inFlight.has(key))) {
+      return users.map(() => ({ success: false, error: 'Rescue already in progress', deferred: true }));
+    }
 
+    keys.forEach((key) => this.inFlight.add(key));
+    let results: RescueResult[];
     try {
+      results = await this.attemptBatchRescue(users);
+    } finally {
+      keys.forEach((key) => this.inFlight.delete(key));
+    }
+
+    users.forEach((user, i) => this.recordResult(user, results[i]));
+    return results;
+  }
+
+  /**
+   * Rescue a user's due registrations: one vault is a plain rescue, several
+   * are batched into one transaction
+   */
+  private async rescueUser(users: RegisteredUser[]): Promise<RescueResult[]> {
+    return users.length === 1 ? [await this.executeRescue(users[0])] : this.executeBatchRescue(users);
+  }
+
+  /**
+   * Rescue several users (each a group of registrations) in one RescueBatcher
+   * transaction and record an attempt for each; results follow input order
+   */
+  async executeBatcherRescue(groups: RegisteredUser[][]): Promise<RescueResult[][]> {
+    const keys = groups.flat().map(registrationKey);
+    if (keys.some((key) => this.inFlight.has(key))) {
+      return groups.map((users) =>
+        users.map(() => ({ success: false, error: 'Rescue already in progress', deferred: true }))
+      );
+    }
+
+    keys.forEach((key) => this.inFlight.add(key));
+    let results: RescueResult[][];
+    try {
+      results = await this.attemptBatcherRescue(groups);
+    } finally {
+      keys.forEach((key) => this.inFlight.delete(key));
+    }
+
+    groups.forEach((users, g) => users.forEach((user, i) => this.recordResult(user, results[g][i])));
+    return results;
+  }
+
+  /**
+   * Rescue a planned set of users (see planRescues): one user goes through
+   * rescueUser, several through the RescueBatcher
+   */
+  private async rescueUsers(groups: RegisteredUser[][]): Promise<RescueResult[][]> {
+    return groups.length === 1 ? [await this.rescueUser(groups[0])] : this.executeBatcherRescue(groups);
+  }
+
+  /**
+   * Split per-user groups into transactions: with a RescueBatcher, users are
+   * bundled up to maxBatchRescues registrations per transaction
+   */
+  private planRescues(groups: RegisteredUser[][]): RegisteredUser[][][] {
+    if (!this.contracts.batcher) return groups.map((users) => [users]);
+
+    const plans: RegisteredUser[][][] = [];
+    let current: RegisteredUser[][] = [];
+    let size = 0;
+    for (const users of groups) {
+      if (current.length > 0 && size + users.length > this.config.maxBatchRescues) {
+        plans.push(current);
+        current = [];
+        size = 0;
+      }
+      current.push(users);
+      size += users.length;
+    }
+    if (current.length > 0) plans.push(current);
+    return plans;
+  }
+
+  private recordResult(user: RegisteredUser, result: RescueResult): void {
+    this.registry.recordAttempt({
+      userAddress: user.userAddress,
+      vaultAddress: user.vaultAddress,
+      attemptedAt: Date.now(),
+      success: result.success,
+      txHash: result.txHash,
+      replacedTxHashes: result.replacedTxHashes,
+      error: result.error,
+    });
+
+    if (!result.success && !result.deferred) {
+      this.recordFailure(user, result.error ?? 'Unknown error');
+    }
+  }
+
+  /**
+   * Back off after a failed rescue, dead-lettering once retries run out
+   */
+  private recordFailure(user: RegisteredUser, error: string): void {
+    const failedAttempts = (user.failedAttempts ?? 0) + 1;
+    const policy = this.config.retryPolicy;
+
+    if (isRetryExhausted(policy, failedAttempts)) {
+      this.registry.markDeadLetter(user.userAddress, user.vaultAddress, failedAttempts, error);
+      this.unlockQueue.remove(user.userAddress, user.vaultAddress);
+      console.log(`   💀 ${user.userAddress} dead-lettered after ${failedAttempts} failed attempts: ${error}`);
+      return;
+    }
+
+    const nextAttemptAt = Date.now() + getRetryDelay(policy, failedAttempts);
+    this.registry.recordFailure(user.userAddress, user.vaultAddress, failedAttempts, error, nextAttemptAt);
+    console.log(
+      `   🔁 Attempt ${failedAttempts}/${policy.maxAttempts} failed, retrying at ${new Date(nextAttemptAt).toISOString()}`
+    );
+  }
+
+  private async attemptRescue(user: RegisteredUser): Promise<RescueResult> {
+    console.log(`\n🚀 Executing rescue for ${user.userAddress} on vault ${user.vaultAddress}`);
+
+    try {
+      const vault = requireSupportedVault(user.vaultAddress);
+
       // Get stake info
-      const stakeInfo = await this.getStakeInfo(user.userAddress);
+      const stakeInfo = await this.getStakeInfo(user.userAddress, vault.address);
       
       if (!stakeInfo.canRescue) {
-        return { success: false, error: 'Cannot rescue yet (locked or no stake)' };
+        return { success: false, error: 'Cannot rescue yet (locked or no stake)', deferred: true };
       }
 
       // Calculate fee
@@ -264,40 +673,452 @@ class AutoUnstakeBot {
       // Create MEV-protected relayer
       const protectedRelayer = createMevProtectedRelayer(
         this.relayerAccount,
-        bscTestnet,
-        this.config.mevProtection
+        activeChain,
+        this.config.mevProtection,
+        this.publicClient
       );
 
-      // Encode call data
-      const callData = encodeFunctionData({
-        abi: UnstakeDelegateABI,
-        functionName: 'executeRescue',
-        args: [this.contracts.vault, this.relayerAccount.address, maxFee],
+      // Dry-run the rescue so doomed transactions never reach the mempool
+      const simulation = await simulateRescue(this.publicClient, {
+        relayer: this.relayerAccount.address,
+        user: user.userAddress,
+        vault: vault.address,
+        maxFee,
+        authorization: user.authorization,
+        delegate: this.contracts.delegate,
       });
+      if (!simulation.ok) {
+        console.log(`   ⛔ Simulation rejected rescue: ${simulation.reason.message}`);
+        if (isAuthorizationExpired(simulation.reason, user.authorization, this.contracts.delegate)) {
+          await this.expireRegistration(user, simulation.reason.message);
+          return { success: false, error: simulation.reason.message, deferred: true };
+        }
+        return {
+          success: false,
+          error: simulation.reason.message,
+          // Chain time can lag the unlock time by a block
+          deferred: simulation.reason.code === 'CANNOT_UNSTAKE',
+        };
+      }
 
-      // Submit transaction
-      const result = await protectedRelayer.sendProtectedTransaction({
-        to: user.userAddress,
-        data: callData,
-        gas: 500000n,
-        authorizationList: [user.authorization] as any,
+      // A user delegated by an earlier rescue (e.g. from another vault) has
+      // already consumed the authorization nonce; send a plain call instead
+      const transaction = buildRescueTransaction({
+        user: user.userAddress,
+        relayer: this.relayerAccount.address,
+        vaults: [{ vault: vault.address, maxFee }],
+        authorization: simulation.delegated ? undefined : user.authorization,
       });
 
-      // Wait for confirmation
-      const receipt = await this.publicClient.waitForTransactionReceipt({
-        hash: result.hash,
+      // Size the gas limit from a gas estimate of the same call
+      const gasEstimate = await estimateRescueGas(this.publicClient, {
+        account: this.relayerAccount.address,
+        ...transaction,
+        delegate: user.authorization.address,
+      });
+
+      // Only spend gas on rescues whose fee pays for it
+      if (this.config.priceSource) {
+        const [, estimatedFee] = await this.publicClient.readContract({
+          address: this.contracts.delegate,
+          abi: UnstakeDelegateABI,
+          functionName: 'estimateRescue',
+          args: [vault.address, user.userAddress],
+        });
+        const profit = await evaluateProfitability(this.publicClient, {
+          token: vault.token,
+          feeTokens: estimatedFee,
+          gas: gasEstimate.simulated ?? gasEstimate.gas,
+          minProfitBps: this.config.minProfitBps,
+          priceSource: this.config.priceSource,
+        });
+
+        if (profit.decision === 'skip') {
+          this.skippedUntil.set(registrationKey(user), Date.now() + this.config.skipCooldownMs);
+          console.log(`   💸 Skipping rescue: ${profit.reason}`);
+          return { success: false, error: profit.reason, deferred: true };
+        }
+        if (profit.decision === 'defer') {
+          console.log(`   💸 Deferring rescue: ${profit.reason}`);
+          return { success: false, error: profit.reason, deferred: true };
+        }
+      }
+
+      // Submit transaction and wait for confirmation
+      const sent = await this.sendAndTrack(protectedRelayer, {
+        ...transaction,
+        gas: gasEstimate.gas,
       });
+      const { receipt, txHash, replacedTxHashes } = sent;
 
+      if (sent.cancelled) {
+        return { success: false, txHash, replacedTxHashes, error: CANCELLED_ERROR };
+      }
       if (receipt.status === 'success') {
-        this.registry.markRescued(user.userAddress, result.hash);
-        console.log(`✅ Rescue successful! TX: ${result.hash}`);
-        return { success: true, txHash: result.hash };
+        this.registry.markRescued(user.userAddress, user.vaultAddress, txHash);
+        console.log(`✅ Rescue successful! TX: ${txHash}`);
+        const breakdown = decodeRescueBreakdown(receipt.logs, user.userAddress);
+        logBreakdown(breakdown);
+        return { success: true, txHash, replacedTxHashes, breakdown };
       } else {
-        return { success: false, txHash: result.hash, error: 'Transaction reverted' };
+        return { success: false, txHash, replacedTxHashes, error: 'Transaction reverted' };
       }
     } catch (error: any) {
-      console.error(`❌ Rescue failed:`, error.message);
-      return { success: false, error: error.message };
+      if (error instanceof TransactionTrackingError) return untrackedResult(error);
+      const reason = decodeRescueRevert(error)?.message ?? error.shortMessage ?? error.message;
+      console.error(`❌ Rescue failed:`, reason);
+      return { success: false, error: reason };
+    }
+  }
+
+  private async attemptBatchRescue(users: RegisteredUser[]): Promise<RescueResult[]> {
+    const { userAddress } = users[0];
+    console.log(`\n🚀 Executing batch rescue for ${userAddress} across ${users.length} vaults`);
+
+    // Registrations that can't join the batch keep these results
+    const results: RescueResult[] = users.map(() => ({
+      success: false,
+      error: 'Cannot rescue yet (locked or no stake)',
+      deferred: true,
+    }));
+    const fail = (indexes: number[], result: RescueResult) => {
+      for (const i of indexes) results[i] = result;
+      return results;
+    };
+
+    const ready: number[] = [];
+    try {
+      const stakes = await Promise.all(users.map((u) => this.getStakeInfo(u.userAddress, u.vaultAddress)));
+      for (const [i, user] of users.entries()) {
+        if (!findSupportedVault(user.vaultAddress)) {
+          results[i] = { success: false, error: `Vault ${user.vaultAddress} is not in SUPPORTED_VAULTS` };
+        } else if (stakes[i].canRescue) {
+          ready.push(i);
+        }
+      }
+
+      if (ready.length < 2) {
+        for (const i of ready) results[i] = await this.attemptRescue(users[i]);
+        return results;
+      }
+
+      const batch = ready.map((i) => users[i]);
+      const vaults = batch.map((u) => u.vaultAddress);
+      const maxFees = ready.map((i) => (stakes[i].amount * BigInt(users[i].maxFeeBps)) / 10000n);
+      // Any of the user's authorizations delegates the whole EOA; use the newest
+      const authorization = batch
+        .map((u) => u.authorization)
+        .reduce((newest, a) => (a.nonce > newest.nonce ? a : newest));
+
+      const simulation = await simulateBatchRescue(this.publicClient, {
+        relayer: this.relayerAccount.address,
+        user: userAddress,
+        vaults,
+        maxFees,
+        authorization,
+        delegate: this.contracts.delegate,
+      });
+      if (!simulation.ok) {
+        console.log(`   ⛔ Simulation rejected batch: ${simulation.reason.message}`);
+        if (isAuthorizationExpired(simulation.reason, authorization, this.contracts.delegate)) {
+          for (const user of batch) await this.expireRegistration(user, simulation.reason.message);
+          return fail(ready, { success: false, error: simulation.reason.message, deferred: true });
+        }
+        // The batch is all-or-nothing; rescue vaults one by one so the
+        // failing one doesn't hold the others back
+        console.log('   ↩️  Falling back to single-vault rescues');
+        for (const i of ready) results[i] = await this.attemptRescue(users[i]);
+        return results;
+      }
+
+      const transaction = buildRescueTransaction({
+        user: userAddress,
+        relayer: this.relayerAccount.address,
+        vaults: vaults.map((vault, j) => ({ vault, maxFee: maxFees[j] })),
+        authorization: simulation.delegated ? undefined : authorization,
+      });
+      const gasEstimate = await estimateRescueGas(this.publicClient, {
+        account: this.relayerAccount.address,
+        ...transaction,
+        delegate: authorization.address,
+      });
+
+      // One transaction's gas against the sum of every vault's fee
+      if (this.config.priceSource) {
+        const estimates = await Promise.all(
+          vaults.map((vault) =>
+            this.publicClient.readContract({
+              address: this.contracts.delegate,
+              abi: UnstakeDelegateABI,
+              functionName: 'estimateRescue',
+              args: [vault, userAddress],
+            })
+          )
+        );
+        const profit = await evaluateBatchProfitability(this.publicClient, {
+          fees: estimates.map(([, estimatedFee], j) => ({
+            token: findSupportedVault(vaults[j])!.token,
+            feeTokens: estimatedFee,
+          })),
+          gas: gasEstimate.simulated ?? gasEstimate.gas,
+          minProfitBps: this.config.minProfitBps,
+          priceSource: this.config.priceSource,
+        });
+
+        if (profit.decision !== 'execute') {
+          if (profit.decision === 'skip') {
+            for (const user of batch) {
+              this.skippedUntil.set(registrationKey(user), Date.now() + this.config.skipCooldownMs);
+            }
+          }
+          console.log(`   💸 ${profit.decision === 'skip' ? 'Skipping' : 'Deferring'} batch rescue: ${profit.reason}`);
+          return fail(ready, { success: false, error: profit.reason, deferred: true });
+        }
+      }
+
+      const protectedRelayer = createMevProtectedRelayer(
+        this.relayerAccount,
+        activeChain,
+        this.config.mevProtection,
+        this.publicClient
+      );
+      const sent = await this.sendAndTrack(protectedRelayer, {
+        ...transaction,
+        gas: gasEstimate.gas,
+      });
+      const { receipt, txHash, replacedTxHashes } = sent;
+
+      if (sent.cancelled) {
+        return fail(ready, { success: false, txHash, replacedTxHashes, error: CANCELLED_ERROR });
+      }
+      if (receipt.status !== 'success') {
+        return fail(ready, { success: false, txHash, replacedTxHashes, error: 'Transaction reverted' });
+      }
+
+      const breakdown = decodeRescueBreakdown(receipt.logs, userAddress);
+      for (const user of batch) {
+        this.registry.markRescued(user.userAddress, user.vaultAddress, txHash);
+      }
+      console.log(`✅ Batch rescue successful! TX: ${txHash}`);
+      logBreakdown(breakdown);
+      for (const i of ready) {
+        results[i] = {
+          success: true,
+          txHash,
+          replacedTxHashes,
+          breakdown: breakdown.filter((b) => isAddressEqual(b.vaultAddress, users[i].vaultAddress)),
+        };
+      }
+      return results;
+    } catch (error: any) {
+      if (error instanceof TransactionTrackingError) return fail(ready, untrackedResult(error));
+      const reason = decodeRescueRevert(error)?.message ?? error.shortMessage ?? error.message;
+      console.error(`❌ Batch rescue failed:`, reason);
+      return fail(ready, { success: false, error: reason });
+    }
+  }
+
+  /**
+   * Send a rescue transaction and wait for it to be mined, speeding it up (or
+   * cancelling it) while it is stuck
+   */
+  private async sendAndTrack(relayer: MevProtectedRelayer, tx: ProtectedTransactionRequest) {
+    const sent = await relayer.sendProtectedTransaction(tx);
+    const tracked = await new TransactionTracker(this.publicClient, relayer.asTransactionSender()).track(sent, {
+      onReplaced: (hash, replaced, kind) => console.log(`   🔁 ${kind}: ${replaced} -> ${hash}`),
+    });
+    return {
+      receipt: tracked.receipt,
+      txHash: tracked.hash,
+      replacedTxHashes: tracked.hashes.filter((hash) => hash !== tracked.hash),
+      cancelled: tracked.cancelled,
+    };
+  }
+
+  /**
+   * The per-user path: a plain rescue for one vault, executeBatchRescue for several
+   */
+  private async attemptUserRescue(users: RegisteredUser[]): Promise<RescueResult[]> {
+    return users.length === 1 ? [await this.attemptRescue(users[0])] : this.attemptBatchRescue(users);
+  }
+
+  private async attemptBatcherRescue(groups: RegisteredUser[][]): Promise<RescueResult[][]> {
+    const batcher = this.contracts.batcher!;
+    const users = groups.flat();
+    console.log(`\n🚀 Executing batcher rescue for ${groups.length} users (${users.length} vaults)`);
+
+    // The batch is all-or-nothing: when it can't go through, every user is
+    // rescued on their own so one bad stake doesn't hold the others back
+    const fallback = async (): Promise<RescueResult[][]> => {
+      console.log('   ↩️  Falling back to per-user rescues');
+      const fallbackResults: RescueResult[][] = [];
+      for (const group of groups) fallbackResults.push(await this.attemptUserRescue(group));
+      return fallbackResults;
+    };
+
+    // Registrations that can't join the batch keep these results
+    const results: RescueResult[] = users.map(() => ({
+      success: false,
+      error: 'Cannot rescue yet (locked or no stake)',
+      deferred: true,
+    }));
+    const byGroup = (): RescueResult[][] => {
+      let offset = 0;
+      return groups.map((group) => results.slice(offset, (offset += group.length)));
+    };
+    const fail = (indexes: number[], result: RescueResult) => {
+      for (const i of indexes) results[i] = result;
+      return byGroup();
+    };
+
+    const ready: number[] = [];
+    try {
+      const stakes = await Promise.all(users.map((u) => this.getStakeInfo(u.userAddress, u.vaultAddress)));
+      for (const [i, user] of users.entries()) {
+        if (!findSupportedVault(user.vaultAddress)) {
+          results[i] = { success: false, error: `Vault ${user.vaultAddress} is not in SUPPORTED_VAULTS` };
+        } else if (stakes[i].canRescue) {
+          ready.push(i);
+        }
+      }
+
+      const readyUsers = groupByUser(ready.map((i) => users[i]));
+      if (readyUsers.length < 2) {
+        return fallback();
+      }
+
+      // Any of a user's authorizations delegates the whole EOA; use the newest
+      const authorizations = new Map(
+        readyUsers.map((group) => [
+          group[0].userAddress.toLowerCase(),
+          group.map((u) => u.authorization).reduce((newest, a) => (a.nonce > newest.nonce ? a : newest)),
+        ])
+      );
+      const rescues = ready.map((i) => ({
+        user: users[i].userAddress,
+        vault: users[i].vaultAddress,
+        maxFee: (stakes[i].amount * BigInt(users[i].maxFeeBps)) / 10000n,
+        authorization: authorizations.get(users[i].userAddress.toLowerCase())!,
+      }));
+
+      const simulation = await simulateBatcherRescue(this.publicClient, {
+        relayer: this.relayerAccount.address,
+        batcher,
+        delegate: this.contracts.delegate,
+        rescues,
+      });
+      if (!simulation.ok) {
+        console.log(`   ⛔ Simulation rejected batch: ${simulation.reason.message}`);
+        return fallback();
+      }
+
+      const callData = encodeFunctionData({
+        abi: RescueBatcherABI,
+        functionName: 'rescueBatch',
+        args: [rescues.map(({ user, vault, maxFee }) => ({ user, vault, maxFee }))],
+      });
+      const authorizationList = simulation.authorizations.length > 0 ? simulation.authorizations : undefined;
+      let gasEstimate;
+      try {
+        gasEstimate = await estimateRescueGas(
+          this.publicClient,
+          {
+            account: this.relayerAccount.address,
+            to: batcher,
+            data: callData,
+            authorizationList,
+            delegate: this.contracts.delegate,
+            delegatedAccounts: readyUsers.map((group) => group[0].userAddress),
+          },
+          { fallbackGas: DEFAULT_RESCUE_GAS * BigInt(rescues.length) }
+        );
+      } catch (error) {
+        if (!(error instanceof RescueGasEstimationRevertedError)) throw error;
+        console.log(`   ⛔ ${error.message}`);
+        return fallback();
+      }
+
+      // One transaction's gas against the sum of every rescue's fee
+      if (this.config.priceSource) {
+        const estimates = await Promise.all(
+          rescues.map((rescue) =>
+            this.publicClient.readContract({
+              address: this.contracts.delegate,
+              abi: UnstakeDelegateABI,
+              functionName: 'estimateRescue',
+              args: [rescue.vault, rescue.user],
+            })
+          )
+        );
+        const profit = await evaluateBatchProfitability(this.publicClient, {
+          fees: estimates.map(([, estimatedFee], j) => ({
+            token: findSupportedVault(rescues[j].vault)!.token,
+            feeTokens: estimatedFee,
+          })),
+          gas: gasEstimate.simulated ?? gasEstimate.gas,
+          minProfitBps: this.config.minProfitBps,
+          priceSource: this.config.priceSource,
+        });
+
+        if (profit.decision !== 'execute') {
+          if (profit.decision === 'skip') {
+            for (const i of ready) {
+              this.skippedUntil.set(registrationKey(users[i]), Date.now() + this.config.skipCooldownMs);
+            }
+          }
+          console.log(`   💸 ${profit.decision === 'skip' ? 'Skipping' : 'Deferring'} batcher rescue: ${profit.reason}`);
+          return fail(ready, { success: false, error: profit.reason, deferred: true });
+        }
+      }
+
+      const protectedRelayer = createMevProtectedRelayer(
+        this.relayerAccount,
+        activeChain,
+        this.config.mevProtection,
+        this.publicClient
+      );
+      const sent = await this.sendAndTrack(protectedRelayer, {
+        to: batcher,
+        data: callData,
+        gas: gasEstimate.gas,
+        authorizationList,
+      });
+      const { receipt, txHash, replacedTxHashes } = sent;
+
+      if (sent.cancelled) {
+        return fail(ready, { success: false, txHash, replacedTxHashes, error: CANCELLED_ERROR });
+      }
+      if (receipt.status !== 'success') {
+        // The authorizations were applied even though the batch reverted, so
+        // the per-user rescues go out as plain calls
+        console.log(`   ⛔ Batcher transaction reverted: ${txHash}`);
+        return fallback();
+      }
+
+      console.log(`✅ Batcher rescue successful! TX: ${txHash}`);
+      for (const group of readyUsers) {
+        const breakdown = decodeRescueBreakdown(receipt.logs, group[0].userAddress);
+        console.log(`   👤 ${group[0].userAddress}`);
+        logBreakdown(breakdown);
+      }
+      for (const i of ready) {
+        const user = users[i];
+        this.registry.markRescued(user.userAddress, user.vaultAddress, txHash);
+        results[i] = {
+          success: true,
+          txHash,
+          replacedTxHashes,
+          breakdown: decodeRescueBreakdown(receipt.logs, user.userAddress).filter((b) =>
+            isAddressEqual(b.vaultAddress, user.vaultAddress)
+          ),
+        };
+      }
+      return byGroup();
+    } catch (error: any) {
+      if (error instanceof TransactionTrackingError) return fail(ready, untrackedResult(error));
+      const reason = decodeRescueRevert(error)?.message ?? error.shortMessage ?? error.message;
+      console.error(`❌ Batcher rescue failed:`, reason);
+      return fail(ready, { success: false, error: reason });
     }
   }
 
@@ -305,33 +1126,329 @@ class AutoUnstakeBot {
    * Check all pending users and rescue eligible ones
    */
   async checkAndRescue(): Promise<void> {
-    const pendingUsers = this.registry.getPending();
-    
-    if (pendingUsers.length === 0) {
+    if (this.checking) {
+      console.log('⏭️  Previous check still running, skipping this cycle');
       return;
     }
+    this.checking = true;
 
-    console.log(`\n🔍 Checking ${pendingUsers.length} registered users...`);
+    try {
+      const checkedAt = Date.now();
+      const pendingUsers = this.registry
+        .getPending()
+        .filter(u => (this.skippedUntil.get(registrationKey(u)) ?? 0) <= checkedAt)
+        .filter(u => (u.nextAttemptAt ?? 0) <= checkedAt)
+        // Least recently checked first, so nobody is starved across cycles
+        .sort((a, b) => (a.lastChecked ?? 0) - (b.lastChecked ?? 0));
+
+      if (pendingUsers.length === 0) {
+        return;
+      }
 
-    for (const user of pendingUsers.slice(0, this.config.maxConcurrentRescues)) {
+      console.log(`\n🔍 Checking ${pendingUsers.length} registrations...`);
+
+      // A user's vaults are checked together so they can share one batch rescue
+      const checked = await runPool(groupByUser(pendingUsers), this.config.maxConcurrentRescues, (users) =>
+        this.checkUser(users)
+      );
+      const eligible = checked
+        .map((result) => (result.status === 'fulfilled' ? result.value : []))
+        .filter((users) => users.length > 0);
+
+      await runPool(this.planRescues(eligible), this.config.maxConcurrentRescues, (groups) =>
+        this.rescueUsers(groups)
+      );
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Check one user's stakes and return the registrations ready for rescue
+   */
+  private async checkUser(registrations: RegisteredUser[]): Promise<RegisteredUser[]> {
+    const eligible: RegisteredUser[] = [];
+    for (const user of registrations) {
       try {
-        const stakeInfo = await this.getStakeInfo(user.userAddress);
-        this.registry.updateLastChecked(user.userAddress);
+        if (!(await this.verifyAuthorization(user))) continue;
+
+        const stakeInfo = await this.getStakeInfo(user.userAddress, user.vaultAddress);
+        this.registry.updateLastChecked(user.userAddress, user.vaultAddress);
 
         if (stakeInfo.canRescue) {
-          console.log(`   📍 User ${user.userAddress}: ELIGIBLE for rescue`);
+          console.log(`   📍 User ${user.userAddress} (vault ${user.vaultAddress}): ELIGIBLE for rescue`);
           console.log(`      Staked: ${formatEther(stakeInfo.amount)} ZGT`);
-          
-          await this.executeRescue(user);
+          eligible.push(user);
         } else if (stakeInfo.amount > 0n) {
           const now = BigInt(Math.floor(Date.now() / 1000));
           const timeLeft = stakeInfo.unlockTime - now;
-          console.log(`   ⏳ User ${user.userAddress}: Locked for ${timeLeft}s more`);
+          console.log(`   ⏳ User ${user.userAddress} (vault ${user.vaultAddress}): Locked for ${timeLeft}s more`);
         }
       } catch (error) {
         console.error(`   ❌ Error checking ${user.userAddress}:`, error);
       }
     }
+
+    return eligible;
+  }
+
+  /**
+   * Check that a stored authorization can still be used: its nonce hasn't
+   * been consumed and it recovers to the registered user
+   * Expires the registration and returns false when it can't
+   */
+  async verifyAuthorization(user: RegisteredUser): Promise<boolean> {
+    // An earlier rescue from another vault applied the authorization; the
+    // consumed nonce doesn't matter while the delegation is in place
+    if (await isDelegatedTo(this.publicClient, user.userAddress, this.contracts.delegate)) {
+      return true;
+    }
+
+    const problem = await checkAuthorization(this.publicClient, {
+      user: user.userAddress,
+      authorization: user.authorization,
+      delegate: this.contracts.delegate,
+    });
+
+    if (problem && isAuthorizationExpired(problem, user.authorization, this.contracts.delegate)) {
+      await this.expireRegistration(user, problem.message);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Stop using a registration and ask the user to re-sign
+   */
+  private async expireRegistration(user: RegisteredUser, reason: string): Promise<void> {
+    console.log(`   ⌛ Authorization for ${user.userAddress} expired: ${reason}`);
+    this.registry.markExpired(user.userAddress, user.vaultAddress, reason);
+    this.unlockQueue.remove(user.userAddress, user.vaultAddress);
+
+    try {
+      await this.config.onAuthorizationExpired?.({
+        userAddress: user.userAddress,
+        delegate: this.contracts.delegate,
+        chainId: activeChain.id,
+        reason,
+        expiredAt: Date.now(),
+      });
+    } catch (error) {
+      console.error(`   ❌ Reauthorization request for ${user.userAddress} failed:`, error);
+    }
+  }
+
+  /**
+   * Read a user's stake and (re)schedule them by unlock time
+   */
+  private async trackUser(user: RegisteredUser): Promise<void> {
+    const { userAddress, vaultAddress } = user;
+    try {
+      if (!(await this.verifyAuthorization(user))) return;
+
+      const [amount, unlockTime] = await this.publicClient.readContract({
+        address: vaultAddress,
+        abi: StakingVaultABI,
+        functionName: 'stakes',
+        args: [userAddress],
+      });
+      this.registry.updateLastChecked(userAddress, vaultAddress);
+
+      if (amount > 0n) {
+        // Don't retry a failed rescue before its backoff ends
+        const backoffUntil = BigInt(Math.ceil((user.nextAttemptAt ?? 0) / 1000));
+        this.unlockQueue.schedule(userAddress, vaultAddress, unlockTime > backoffUntil ? unlockTime : backoffUntil);
+      } else {
+        this.unlockQueue.remove(userAddress, vaultAddress);
+      }
+    } catch (error) {
+      console.error(`   ❌ Error reading stake of ${userAddress}:`, error);
+    }
+  }
+
+  /**
+   * Rebuild the unlock queue from chain for every pending user
+   */
+  async syncQueue(): Promise<void> {
+    await runPool(this.registry.getPending(), SYNC_CONCURRENCY, (user) => this.trackUser(user));
+  }
+
+  /**
+   * Update the queue from vault events for registered users
+   */
+  private watchVaultEvents(): void {
+    this.unwatchEvents = this.publicClient.watchContractEvent({
+      address: getSupportedVaults().map((vault) => vault.address),
+      abi: StakingVaultABI,
+      onLogs: (logs) => {
+        for (const log of logs) {
+          const user = log.args.user && this.registry.get(log.args.user, log.address);
+          if (!user || user.status !== 'pending') continue;
+
+          if (log.eventName === 'Staked' && log.args.unlockTime !== undefined) {
+            console.log(`   📥 ${user.userAddress} staked in ${user.vaultAddress}, unlocks at ${log.args.unlockTime}`);
+            this.unlockQueue.schedule(user.userAddress, user.vaultAddress, log.args.unlockTime);
+          } else if (log.eventName === 'Unstaked') {
+            console.log(`   📤 ${user.userAddress} unstaked from ${user.vaultAddress}`);
+            this.unlockQueue.remove(user.userAddress, user.vaultAddress);
+          }
+        }
+        this.scheduleWake();
+      },
+      onError: (error) => {
+        console.error('❌ Vault event subscription error:', error.message);
+      },
+    });
+  }
+
+  /**
+   * Sleep until the earliest scheduled unlock
+   */
+  private scheduleWake(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = undefined;
+    }
+
+    const next = this.unlockQueue.peek();
+    if (!this.isRunning || !next) return;
+
+    const delayMs = Math.max(0, Number(next.unlockTime) * 1000 - Date.now());
+    this.wakeTimer = setTimeout(() => this.processDue(), Math.min(delayMs, MAX_TIMER_MS));
+  }
+
+  /**
+   * Rescue every user whose stake has unlocked
+   */
+  async processDue(): Promise<void> {
+    // The running pass reschedules the wake-up when it finishes
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = BigInt(Math.floor(Date.now() / 1000));
+      // Earliest unlock first; at most maxConcurrentRescues run at once
+      const due = this.unlockQueue
+        .popDue(now)
+        .map((entry) => this.registry.get(entry.userAddress, entry.vaultAddress))
+        .filter((user): user is RegisteredUser => user?.status === 'pending');
+
+      // Vaults of the same user unlocking together share one batch rescue,
+      // and users unlocking together one RescueBatcher transaction
+      await runPool(this.planRescues(groupByUser(due)), this.config.maxConcurrentRescues, async (groups) => {
+        const users = groups.flat();
+        for (const user of users) {
+          console.log(`   📍 User ${user.userAddress} (vault ${user.vaultAddress}): lock expired, rescuing`);
+        }
+        const results = (await this.rescueUsers(groups)).flat();
+
+        for (const [i, user] of users.entries()) {
+          // Expired and dead-lettered registrations stay out of the queue
+          const updated = this.registry.get(user.userAddress, user.vaultAddress);
+          if (!results[i].success && updated?.status === 'pending') {
+            // Deferred rescues are re-checked shortly, failures wait out their
+            // backoff, and dust stakes their cooldown
+            const retryAt = Math.max(
+              Date.now() + this.config.retryDelayMs,
+              updated.nextAttemptAt ?? 0,
+              this.skippedUntil.get(registrationKey(user)) ?? 0
+            );
+            this.unlockQueue.schedule(user.userAddress, user.vaultAddress, BigInt(Math.ceil(retryAt / 1000)));
+          }
+        }
+      });
+    } finally {
+      this.processing = false;
+      this.scheduleWake();
+    }
+  }
+
+  /**
+   * Fallback: re-read all stakes from chain, then rescue anything due
+   */
+  private async sweep(): Promise<void> {
+    if (this.sweeping) {
+      console.log('⏭️  Previous sweep still running, skipping this cycle');
+      return;
+    }
+    this.sweeping = true;
+
+    try {
+      await this.syncQueue();
+      await this.processDue();
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Rescue attempts recorded for a user (optionally in one vault), oldest first
+   */
+  getRescueHistory(userAddress: string, vaultAddress?: string): RescueAttempt[] {
+    return this.registry.getAttempts(userAddress, vaultAddress);
+  }
+
+  /**
+   * All registrations, or those in one status
+   */
+  listRegistrations(status?: RegistrationStatus): RegisteredUser[] {
+    return status ? this.registry.getByStatus(status) : this.registry.getAll();
+  }
+
+  getRegistration(userAddress: string, vaultAddress: string): RegisteredUser | undefined {
+    return this.registry.get(userAddress, vaultAddress);
+  }
+
+  /**
+   * A user's registrations across all vaults
+   */
+  getRegistrations(userAddress: string): RegisteredUser[] {
+    return this.registry.getForUser(userAddress);
+  }
+
+  unregisterUser(userAddress: string, vaultAddress: string): boolean {
+    if (!this.registry.get(userAddress, vaultAddress)) return false;
+    this.registry.unregister(userAddress, vaultAddress);
+    this.unlockQueue.remove(userAddress, vaultAddress);
+    return true;
+  }
+
+  /**
+   * Add or overwrite registrations, e.g. from another bot's export
+   */
+  importRegistrations(users: RegisteredUser[]): number {
+    for (const user of users) {
+      this.registry.register(user);
+      if (this.isRunning && user.status === 'pending') {
+        this.trackUser(user).then(() => this.scheduleWake());
+      }
+    }
+    return users.length;
+  }
+
+  /**
+   * Registrations whose rescues failed too many times
+   */
+  getDeadLettered(): RegisteredUser[] {
+    return this.registry.getDeadLettered();
+  }
+
+  /**
+   * Give a dead-lettered registration a fresh retry budget
+   */
+  requeue(userAddress: string, vaultAddress: string): boolean {
+    const user = this.registry.requeue(userAddress, vaultAddress);
+    if (user && this.isRunning) {
+      this.trackUser(user).then(() => this.scheduleWake());
+    }
+    return user !== undefined;
+  }
+
+  /**
+   * Re-encrypt stored authorizations with a new key
+   */
+  rotateStoreKey(cipher: StoreCipher | undefined): number {
+    return this.registry.rekey(cipher);
   }
 
   /**
@@ -342,57 +1459,96 @@ class AutoUnstakeBot {
     registeredUsers: number;
     pendingRescues: number;
     completedRescues: number;
+    expiredAuthorizations: number;
+    deadLettered: number;
     relayerBalance: string;
-    relayerTokens: string;
+    // Fee token balance and pending registrations per supported vault
+    vaults: { vault: string; token: string; pendingRescues: number; relayerTokens: string }[];
   }> {
     const allUsers = this.registry.getAll();
-    const [bnbBalance, tokenBalance] = await Promise.all([
-      this.publicClient.getBalance({ address: this.relayerAccount.address }),
-      this.publicClient.readContract({
-        address: this.contracts.token,
-        abi: ZeroGTokenABI,
-        functionName: 'balanceOf',
-        args: [this.relayerAccount.address],
-      }) as Promise<bigint>,
+    const supportedVaults = getSupportedVaults();
+    const relayerAddress = this.relayerSigner?.address ?? (await getSignerAddress('RELAYER'));
+    const [bnbBalance, ...tokenBalances] = await Promise.all([
+      this.publicClient.getBalance({ address: relayerAddress }),
+      ...supportedVaults.map(
+        (vault) =>
+          this.publicClient.readContract({
+            address: vault.token,
+            abi: ZeroGTokenABI,
+            functionName: 'balanceOf',
+            args: [relayerAddress],
+          }) as Promise<bigint>
+      ),
     ]);
 
     return {
       isRunning: this.isRunning,
       registeredUsers: allUsers.length,
-      pendingRescues: allUsers.filter(u => !u.rescued).length,
-      completedRescues: allUsers.filter(u => u.rescued).length,
+      pendingRescues: allUsers.filter(u => u.status === 'pending').length,
+      completedRescues: allUsers.filter(u => u.status === 'rescued').length,
+      expiredAuthorizations: allUsers.filter(u => u.status === 'expired').length,
+      deadLettered: allUsers.filter(u => u.status === 'dead-letter').length,
       relayerBalance: formatEther(bnbBalance),
-      relayerTokens: formatEther(tokenBalance),
+      vaults: supportedVaults.map((vault, i) => ({
+        vault: vault.address,
+        token: vault.token,
+        pendingRescues: allUsers.filter(
+          u => u.status === 'pending' && isAddressEqual(u.vaultAddress, vault.address)
+        ).length,
+        relayerTokens: formatEther(tokenBalances[i]),
+      })),
     };
   }
 
   /**
    * Start the bot
    */
-  start(): void {
+  async start(): Promise<void> {
     if (this.isRunning) {
       console.log('⚠️ Bot is already running');
       return;
     }
 
+    // Keeps rotate-key (and a second bot) off the store while running
+    this.releaseStoreLock = lockRegistrationStore(DATA_DIR);
+    await this.loadRelayerSigner();
+
     console.log('╔═══════════════════════════════════════════════════════════════╗');
     console.log('║          Zero-G Unstake - Auto-Unstake Bot                    ║');
     console.log('╚═══════════════════════════════════════════════════════════════╝');
     console.log(`\n📋 Configuration:`);
-    console.log(`   Check Interval: ${this.config.checkIntervalMs / 1000}s`);
+    console.log(`   Network: ${activeDeployment.network} (chain ${activeChain.id})`);
+    console.log(`   Fallback Sweep: ${this.config.checkIntervalMs / 1000}s`);
     console.log(`   Max Concurrent: ${this.config.maxConcurrentRescues}`);
-    console.log(`   MEV Protection: ${this.config.mevProtection.enabled ? 'Enabled' : 'Disabled'}`);
+    console.log(
+      `   Rescue Batcher: ${this.contracts.batcher ? `${this.contracts.batcher} (up to ${this.config.maxBatchRescues} rescues)` : 'Disabled'}`
+    );
+    const mevStatus = createMevProtectedRelayer(this.relayerAccount, activeChain, this.config.mevProtection).getStatus();
+    console.log(`   MEV Protection: ${mevStatus.enabled ? `Enabled (${mevStatus.providers.join(', ')})` : 'Disabled (public mempool)'}`);
+    console.log(
+      `   Min Profit: ${this.config.priceSource ? `${this.config.minProfitBps} bps (${this.config.priceSource.name} prices)` : 'Disabled (no price source)'}`
+    );
     console.log(`   Relayer: ${this.relayerAccount.address}`);
+    console.log(`   Vaults: ${getSupportedVaults().map((vault) => vault.address).join(', ')}`);
     console.log(`\n📂 Data Directory: ${DATA_DIR}`);
 
     this.isRunning = true;
 
-    // Initial check
-    this.checkAndRescue();
+    // React to new stakes and unstakes as they happen
+    this.watchVaultEvents();
+
+    // Initial sync, then sleep until the first unlock
+    this.sweep().then(() => {
+      const next = this.unlockQueue.peek();
+      console.log(`\n📅 Tracking ${this.unlockQueue.size} stakes`);
+      if (next) {
+        console.log(`   Next unlock: ${next.userAddress} (vault ${next.vaultAddress}) at ${new Date(Number(next.unlockTime) * 1000).toISOString()}`);
+      }
+    });
 
-    // Start periodic checks
+    // Periodic re-sync in case events were missed
     this.intervalId = setInterval(() => {
-      this.checkAndRescue();
+      this.sweep();
     }, this.config.checkIntervalMs);
 
     console.log('\n✅ Bot started! Monitoring for rescuable stakes...\n');
@@ -405,6 +1561,12 @@ class AutoUnstakeBot {
     if (this.intervalId) {
       clearInterval(this.intervalId);
     }
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+    }
+    this.unwatchEvents?.();
+    this.releaseStoreLock?.();
+    this.releaseStoreLock = undefined;
     this.isRunning = false;
     console.log('🛑 Bot stopped');
   }
@@ -412,15 +1574,144 @@ class AutoUnstakeBot {
 
 // ============ CLI Interface ============
 
+const USAGE = `Zero-G Unstake Auto-Unstake Bot
+
+Commands:
+  start                          Start the bot (default)
+  status                         Show bot status
+  check                          Run a single check cycle
+  register <request.json>        Register from a request file written by userSign.ts
+  register <address> <authJson>  Register with an authorizationList-style JSON
+    --max-fee-bps <bps>          Max fee the user accepts (default 200 = 2%)
+  list [--status <status>]       List registrations
+  show <address>                 Show a registration and its rescue attempts
+  unregister <address>           Remove a registration
+  import <file>                  Import registrations exported with 'export'
+  export <file>                  Export all registrations (includes signatures!)
+  history <address>              Show rescue attempts for a user
+  dead-letter                    List users whose rescues kept failing
+  requeue <address | --all>      Retry dead-lettered users
+  rotate-key                     Re-encrypt stored authorizations with a new key
+    --generate-key-file <path>   Generate the new key file instead of using env
+
+Options:
+  --vault <address>              Vault for register/show/unregister/history/requeue
+                                 (needed when a user is registered for several vaults)
+  --network <name>               Network from deployments.json (default: NETWORK or bsc-testnet)
+  --json                         Machine-readable output`;
+
+/**
+ * Validate one entry of an exported registrations file
+ */
+function parseRegistration(raw: any, index: number): RegisteredUser {
+  const field = `registrations[${index}]`;
+  if (!raw || typeof raw !== 'object' || !isAddress(raw.userAddress ?? '', { strict: false })) {
+    throw new InvalidRescueRequestError(`${field}.userAddress must be an address`);
+  }
+  // Exports from before multi-vault support have no vault
+  const vaultAddress = raw.vaultAddress ?? getContractAddresses().vault;
+  if (!findSupportedVault(vaultAddress)) {
+    throw new InvalidRescueRequestError(`${field}.vaultAddress ${vaultAddress} is not a supported vault`);
+  }
+  if (raw.status !== undefined && !REGISTRATION_STATUSES.includes(raw.status)) {
+    throw new InvalidRescueRequestError(`${field}.status must be one of ${REGISTRATION_STATUSES.join(', ')}`);
+  }
+  const maxFeeBps = Number(raw.maxFeeBps ?? DEFAULT_MAX_FEE_BPS);
+  if (!Number.isInteger(maxFeeBps) || maxFeeBps < 0 || maxFeeBps > 10000) {
+    throw new InvalidRescueRequestError(`${field}.maxFeeBps must be between 0 and 10000`);
+  }
+
+  return {
+    userAddress: raw.userAddress,
+    vaultAddress,
+    authorization: parseAuthorizationTuple(raw.authorization, `${field}.authorization`),
+    maxFeeBps,
+    registeredAt: Number(raw.registeredAt ?? Date.now()),
+    lastChecked: raw.lastChecked,
+    status: raw.status ?? 'pending',
+    statusReason: raw.statusReason,
+    rescueTxHash: raw.rescueTxHash,
+    failedAttempts: raw.failedAttempts,
+    nextAttemptAt: raw.nextAttemptAt,
+    lastError: raw.lastError,
+  };
+}
+
+/**
+ * Table row for a registration (signatures are never printed)
+ */
+function registrationRow(user: RegisteredUser) {
+  return {
+    Address: user.userAddress,
+    Vault: user.vaultAddress,
+    Status: user.status,
+    'Max Fee': `${user.maxFeeBps / 100}%`,
+    Nonce: user.authorization.nonce,
+    Failed: user.failedAttempts ?? 0,
+    Registered: formatTimestamp(user.registeredAt),
+    'Last Checked': formatTimestamp(user.lastChecked),
+  };
+}
+
 async function main() {
-  const args = process.argv.slice(2);
-  const command = args[0] || 'start';
+  const { positionals, values: options } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      all: { type: 'boolean', default: false },
+      status: { type: 'string' },
+      'max-fee-bps': { type: 'string' },
+      'generate-key-file': { type: 'string' },
+      vault: { type: 'string' },
+      // Read by config.ts when it loads (see deployments.ts)
+      network: { type: 'string' },
+    },
+  });
+  const [command = 'start', ...args] = positionals;
+
+  // Keep stdout clean for scripts: diagnostics go to stderr in JSON mode
+  const output = (value: unknown, print: () => void) => {
+    if (options.json) {
+      process.stdout.write(toJson(value) + '\n');
+    } else {
+      print();
+    }
+  };
+  if (options.json) {
+    console.log = console.error.bind(console);
+  }
+
+  const usageError = (usage: string): never => {
+    console.error(`Usage: npm run bot ${usage}`);
+    process.exit(1);
+  };
+
+  if (options.vault && !isAddress(options.vault, { strict: false })) {
+    usageError('<command> --vault <address>');
+  }
+  const vaultOption = options.vault as `0x${string}` | undefined;
+
+  // Only commands that touch the chain need it reachable and the relayer signer
+  const needsChain = ['start', 'status', 'check'].includes(command);
+  await loadConfig({ onChain: needsChain, signers: needsChain ? ['RELAYER'] : [] });
 
   const bot = new AutoUnstakeBot();
 
+  // A user's registration in --vault, or their only registration
+  const findRegistration = (userAddress: string): RegisteredUser | undefined => {
+    if (vaultOption) return bot.getRegistration(userAddress, vaultOption);
+    const registrations = bot.getRegistrations(userAddress);
+    if (registrations.length > 1) {
+      console.error(`❌ ${userAddress} is registered for ${registrations.length} vaults; pass --vault`);
+      process.exit(1);
+    }
+    return registrations[0];
+  };
+
   switch (command) {
     case 'start':
-      bot.start();
+      await bot.start();
       
       // Handle graceful shutdown
       process.on('SIGINT', () => {
@@ -433,43 +1724,222 @@ async function main() {
       console.log('Press Ctrl+C to stop the bot\n');
       break;
 
-    case 'status':
+    case 'status': {
       const status = await bot.getStatus();
-      console.log('\n📊 Bot Status:');
-      console.log(`   Running: ${status.isRunning ? 'Yes' : 'No'}`);
-      console.log(`   Registered Users: ${status.registeredUsers}`);
-      console.log(`   Pending Rescues: ${status.pendingRescues}`);
-      console.log(`   Completed Rescues: ${status.completedRescues}`);
-      console.log(`   Relayer ETH: ${status.relayerBalance}`);
-      console.log(`   Relayer ZGT: ${status.relayerTokens}`);
+      output(status, () => {
+        console.log('\n📊 Bot Status:');
+        console.log(`   Running: ${status.isRunning ? 'Yes' : 'No'}`);
+        console.log(`   Registered Users: ${status.registeredUsers}`);
+        console.log(`   Pending Rescues: ${status.pendingRescues}`);
+        console.log(`   Completed Rescues: ${status.completedRescues}`);
+        console.log(`   Expired Authorizations: ${status.expiredAuthorizations}`);
+        console.log(`   Dead-Lettered: ${status.deadLettered}`);
+        console.log(`   Relayer ETH: ${status.relayerBalance}`);
+        for (const vault of status.vaults) {
+          console.log(`   Vault ${vault.vault}: ${vault.pendingRescues} pending, relayer holds ${vault.relayerTokens} tokens`);
+        }
+      });
       break;
+    }
+
+    case 'register': {
+      const maxFeeBps = Number(options['max-fee-bps'] ?? DEFAULT_MAX_FEE_BPS);
+      if (!Number.isInteger(maxFeeBps) || maxFeeBps < 0 || maxFeeBps > 10000) {
+        usageError('register ... --max-fee-bps <0-10000>');
+      }
+
+      let userAddress: `0x${string}`;
+      let vaultAddress = vaultOption ?? getContractAddresses().vault;
+      let authorization: AuthorizationTuple;
+      if (args.length === 1) {
+        // Request file written by userSign.ts
+        const request = parseRescueRequest(JSON.parse(fs.readFileSync(path.resolve(args[0]), 'utf-8')));
+        userAddress = request.userAddress;
+        vaultAddress = vaultOption ?? request.vaultAddress;
+        authorization = toAuthorizationTuple(request.authorization);
+      } else if (args.length === 2) {
+        if (!isAddress(args[0], { strict: false })) usageError('register <address> <authorizationJson>');
+        userAddress = args[0] as `0x${string}`;
+        authorization = parseAuthorizationTuple(JSON.parse(args[1]));
+      } else {
+        return usageError('register <request.json> | <address> <authorizationJson> [--max-fee-bps <bps>] [--vault <address>]');
+      }
+
+      bot.registerUser(userAddress, vaultAddress, authorization, maxFeeBps);
+      output(bot.getRegistration(userAddress, vaultAddress), () => {
+        console.log(`✅ Registered ${userAddress} for auto-unstake on ${vaultAddress} (max fee ${maxFeeBps / 100}%)`);
+      });
+      break;
+    }
 
-    case 'register':
-      // Example: npm run bot register <userAddress> <authJson>
-      if (args.length < 3) {
-        console.log('Usage: npm run bot register <userAddress> <authorizationJson>');
-        console.log('Example: npm run bot register 0x123... \'{"address":"0x...","chainId":97,...}\'');
+    case 'list': {
+      const status = options.status as RegistrationStatus | undefined;
+      if (status && !REGISTRATION_STATUSES.includes(status)) {
+        usageError(`list [--status ${REGISTRATION_STATUSES.join('|')}]`);
+      }
+      const users = bot.listRegistrations(status);
+      // Signatures stay out of listings; use export to get them
+      output(
+        users.map(({ authorization, ...user }) => ({ ...user, nonce: authorization.nonce })),
+        () => printTable(users.map(registrationRow))
+      );
+      break;
+    }
+
+    case 'show': {
+      if (args.length < 1) usageError('show <address> [--vault <address>]');
+      const user = findRegistration(args[0]);
+      if (!user) {
+        console.error(`❌ ${args[0]} is not registered`);
         process.exit(1);
       }
-      const userAddress = args[1] as `0x${string}`;
-      const authJson = JSON.parse(args[2]);
-      bot.registerUser(userAddress, authJson);
-      console.log(`✅ Registered ${userAddress} for auto-unstake`);
+      const attempts = bot.getRescueHistory(user.userAddress, user.vaultAddress);
+      const { r, s, ...authorization } = user.authorization;
+      output({ ...user, authorization, attempts }, () => {
+        console.log(`\n👤 ${user.userAddress}`);
+        console.log(`   Vault: ${user.vaultAddress}`);
+        console.log(`   Status: ${user.status}${user.statusReason ? ` (${user.statusReason})` : ''}`);
+        console.log(`   Max Fee: ${user.maxFeeBps / 100}%`);
+        console.log(`   Delegate: ${authorization.address} (chain ${authorization.chainId}, nonce ${authorization.nonce})`);
+        console.log(`   Registered: ${formatTimestamp(user.registeredAt)}`);
+        console.log(`   Last Checked: ${formatTimestamp(user.lastChecked) ?? 'never'}`);
+        console.log(`   Failed Attempts: ${user.failedAttempts ?? 0}`);
+        if (user.lastError) console.log(`   Last Error: ${user.lastError}`);
+        if (user.rescueTxHash) console.log(`   Rescue TX: ${user.rescueTxHash}`);
+        console.log(`\n📜 Rescue attempts: ${attempts.length}`);
+        printTable(
+          attempts.map((attempt) => ({
+            Time: formatTimestamp(attempt.attemptedAt),
+            Result: attempt.success ? 'success' : 'failed',
+            TX: attempt.txHash,
+            Replaced: attempt.replacedTxHashes?.join(', '),
+            Error: attempt.error,
+          }))
+        );
+      });
+      break;
+    }
+
+    case 'unregister': {
+      if (args.length < 1) usageError('unregister <address> [--vault <address>]');
+      const user = findRegistration(args[0]);
+      const removed = user !== undefined && bot.unregisterUser(user.userAddress, user.vaultAddress);
+      output({ userAddress: args[0], vaultAddress: user?.vaultAddress, removed }, () => {
+        console.log(removed ? `🗑️  Unregistered ${args[0]}` : `⚠️ ${args[0]} is not registered`);
+      });
+      break;
+    }
+
+    case 'import': {
+      if (args.length < 1) usageError('import <file>');
+      const entries = JSON.parse(fs.readFileSync(path.resolve(args[0]), 'utf-8'));
+      if (!Array.isArray(entries)) {
+        throw new InvalidRescueRequestError('Import file must contain a JSON array of registrations');
+      }
+      // Validate everything before writing anything
+      const users = entries.map(parseRegistration);
+      const imported = bot.importRegistrations(users);
+      output({ imported }, () => {
+        console.log(`📥 Imported ${imported} registrations from ${args[0]}`);
+      });
+      break;
+    }
+
+    case 'export': {
+      if (args.length < 1) usageError('export <file>');
+      const users = bot.listRegistrations();
+      fs.writeFileSync(path.resolve(args[0]), toJson(users) + '\n', { mode: 0o600 });
+      output({ exported: users.length, file: args[0] }, () => {
+        console.log(`📤 Exported ${users.length} registrations to ${args[0]}`);
+        console.log('   ⚠️ The file contains plaintext authorizations; store it securely');
+      });
+      break;
+    }
+
+    case 'history': {
+      if (args.length < 1) usageError('history <address> [--vault <address>]');
+      const attempts = bot.getRescueHistory(args[0], vaultOption);
+      output(attempts, () => {
+        console.log(`\n📜 Rescue attempts for ${args[0]}: ${attempts.length}`);
+        for (const attempt of attempts) {
+          const when = new Date(attempt.attemptedAt).toISOString();
+          console.log(
+            `   ${attempt.success ? '✅' : '❌'} ${when} ${attempt.vaultAddress ?? ''} ${attempt.txHash ?? ''} ${attempt.error ?? ''}`.trimEnd()
+          );
+          for (const replaced of attempt.replacedTxHashes ?? []) {
+            console.log(`      replaced ${replaced}`);
+          }
+        }
+      });
+      break;
+    }
+
+    case 'dead-letter': {
+      const deadLettered = bot.getDeadLettered();
+      output(deadLettered.map(({ authorization, ...user }) => user), () => {
+        console.log(`\n💀 Dead-lettered users: ${deadLettered.length}`);
+        for (const user of deadLettered) {
+          console.log(`   ${user.userAddress} on ${user.vaultAddress} (${user.failedAttempts} attempts)`);
+          console.log(`      Last error: ${user.lastError ?? 'unknown'}`);
+        }
+      });
       break;
+    }
+
+    case 'requeue': {
+      if (args.length < 1 && !options.all) usageError('requeue <address | --all> [--vault <address>]');
+      const targets = options.all ? bot.getDeadLettered() : [findRegistration(args[0])];
+      const results = targets.map((target, i) => ({
+        userAddress: target?.userAddress ?? args[i],
+        vaultAddress: target?.vaultAddress,
+        requeued: target !== undefined && bot.requeue(target.userAddress, target.vaultAddress),
+      }));
+      output(results, () => {
+        for (const { userAddress, vaultAddress, requeued } of results) {
+          console.log(
+            requeued ? `🔁 Requeued ${userAddress} on ${vaultAddress}` : `⚠️ ${userAddress} is not dead-lettered`
+          );
+        }
+      });
+      break;
+    }
+
+    case 'rotate-key': {
+      // New key from BOT_STORE_NEW_PASSPHRASE / BOT_STORE_NEW_KEY_FILE,
+      // or a freshly generated key file
+      const keyFile = options['generate-key-file'];
+      const newCipher = keyFile
+        ? StoreCipher.generateKeyFile(path.resolve(keyFile))
+        : createStoreCipherFromEnv('BOT_STORE_NEW');
+      if (!newCipher) {
+        console.error('Set BOT_STORE_NEW_PASSPHRASE or BOT_STORE_NEW_KEY_FILE, or generate a key file');
+        return usageError('rotate-key [--generate-key-file <path>]');
+      }
+
+      // Re-encrypting under a running bot would leave it with the old key
+      const releaseStoreLock = lockRegistrationStore(DATA_DIR);
+      let count: number;
+      try {
+        count = bot.rotateStoreKey(newCipher);
+      } finally {
+        releaseStoreLock();
+      }
+      output({ reencrypted: count, source: newCipher.source }, () => {
+        console.log(`🔐 Re-encrypted ${count} authorizations with the new ${newCipher.source}`);
+        console.log('   Update BOT_STORE_PASSPHRASE / BOT_STORE_KEY_FILE before restarting the bot');
+      });
+      break;
+    }
 
     case 'check':
+      await bot.loadRelayerSigner();
       console.log('🔍 Running one-time check...');
       await bot.checkAndRescue();
       console.log('✅ Check complete');
       break;
 
     default:
-      console.log('Zero-G Unstake Auto-Unstake Bot\n');
-      console.log('Commands:');
-      console.log('  start    - Start the bot (default)');
-      console.log('  status   - Show bot status');
-      console.log('  check    - Run a single check cycle');
-      console.log('  register - Register a user for auto-unstake');
+      console.log(USAGE);
   }
 }
 
@@ -477,4 +1947,11 @@ async function main() {
 export { AutoUnstakeBot, UserRegistry };
 
 // Run if called directly
-main().catch(console.error);
+main().catch((error) => {
+  console.error(
+    error instanceof InvalidRescueRequestError || error instanceof ConfigError || error instanceof StoreLockedError
+      ? `❌ ${error.message}`
+      : error
+  );
+  process.exit(1);
+});
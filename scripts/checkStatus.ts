@@ -11,21 +11,20 @@ import {
   http,
   formatEther,
 } from 'viem';
-import {
-  bscTestnet,
-  getDeployerAccount,
-  getRelayerAccount,
-  getUserAccount,
-  getContractAddresses,
-} from './utils/config';
 import {
   StakingVaultABI,
   UnstakeDelegateABI,
   ZeroGTokenABI,
-} from './utils/abis';
+} from '@zero-g/sdk';
+import {
+  activeChain,
+  getContractAddresses,
+} from './utils/config';
+import { loadConfig } from './utils/configLoader';
+import { getSignerAddress } from './utils/signers';
 
 const publicClient = createPublicClient({
-  chain: bscTestnet,
+  chain: activeChain,
   transport: http(),
 });
 
@@ -43,6 +42,8 @@ async function main() {
     return;
   }
 
+  await loadConfig({ signers: ['DEPLOYER', 'RELAYER', 'USER'] });
+
   console.log('\n📝 Contract Addresses:');
   console.log(`   ZeroGToken: ${contracts.token}`);
   console.log(`   StakingVault: ${contracts.vault}`);
@@ -70,31 +71,31 @@ async function main() {
   console.log(`   Lock Duration: ${lockDuration} seconds`);
   console.log(`   Relayer Fee: ${feeBps} bps (${Number(feeBps) / 100}%)`);
 
-  // Get accounts
-  const deployer = getDeployerAccount();
-  const relayer = getRelayerAccount();
-  const user = getUserAccount();
+  // Get account addresses (keystores stay locked)
+  const deployer = await getSignerAddress('DEPLOYER');
+  const relayer = await getSignerAddress('RELAYER');
+  const user = await getSignerAddress('USER');
 
   // Account balances
   console.log('\n👤 Account Balances:');
 
-  for (const [name, account] of [
+  for (const [name, address] of [
     ['Deployer', deployer],
     ['Relayer', relayer],
     ['User', user],
   ] as const) {
     const bnbBalance = await publicClient.getBalance({
-      address: account.address,
+      address,
     });
     const tokenBalance = await publicClient.readContract({
       address: contracts.token,
       abi: ZeroGTokenABI,
       functionName: 'balanceOf',
-      args: [account.address],
+      args: [address],
     });
 
-    console.log(`\n   ${name}: ${account.address}`);
-    console.log(`      BNB: ${formatEther(bnbBalance)} tBNB`);
+    console.log(`\n   ${name}: ${address}`);
+    console.log(`      BNB: ${formatEther(bnbBalance)} ${activeChain.nativeCurrency.symbol}`);
     console.log(`      ZGT: ${formatEther(tokenBalance)} ZGT`);
   }
 
@@ -104,13 +105,13 @@ async function main() {
     address: contracts.vault,
     abi: StakingVaultABI,
     functionName: 'stakes',
-    args: [user.address],
+    args: [user],
   });
   const canUnstake = await publicClient.readContract({
     address: contracts.vault,
     abi: StakingVaultABI,
     functionName: 'canUnstake',
-    args: [user.address],
+    args: [user],
   });
 
   console.log(`   Staked: ${formatEther(stakedAmount)} ZGT`);
@@ -130,7 +131,7 @@ async function main() {
       address: contracts.delegate,
       abi: UnstakeDelegateABI,
       functionName: 'estimateRescue',
-      args: [contracts.vault, user.address],
+      args: [contracts.vault, user],
     });
 
     console.log(`   Staked Amount: ${formatEther(estStaked)} ZGT`);
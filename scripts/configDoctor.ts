@@ -0,0 +1,70 @@
+/**
+ * Zero-G Unstake - Config Doctor
+ *
+ * Runs every configuration check (see utils/configLoader.ts) and prints the
+ * results, so a broken .env or deployments.json entry can be diagnosed
+ * before starting the relayer or bot.
+ *
+ * Usage: npm run config doctor [-- --network <name>] [--offline] [--json]
+ */
+
+import { parseArgs } from 'util';
+import type { ConfigCheck } from '@zero-g/sdk';
+import { activeChain, activeDeployment } from './utils/config';
+import { runConfigChecks } from './utils/configLoader';
+import { toJson } from './utils/cliOutput';
+
+const USAGE = `Usage: npm run config doctor [-- --network <name>] [--offline] [--json]
+
+  doctor     Check the environment, deployments.json, signers and contracts
+  --offline  Skip the RPC and on-chain checks
+  --json     Print the checks as JSON`;
+
+const STATUS_ICONS: Record<ConfigCheck['status'], string> = {
+  ok: '✅',
+  warning: '⚠️ ',
+  error: '❌',
+};
+
+async function main() {
+  const { positionals, values: options } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      offline: { type: 'boolean', default: false },
+      // Read by config.ts when it loads (see deployments.ts)
+      network: { type: 'string' },
+    },
+  });
+
+  if (positionals[0] !== 'doctor') {
+    console.log(USAGE);
+    process.exit(positionals.length ? 1 : 0);
+  }
+
+  const checks = await runConfigChecks({ onChain: !options.offline });
+  const errors = checks.filter((check) => check.status === 'error').length;
+  const warnings = checks.filter((check) => check.status === 'warning').length;
+
+  if (options.json) {
+    process.stdout.write(toJson({ network: activeDeployment.network, chainId: activeChain.id, checks }) + '\n');
+  } else {
+    console.log(`\n🩺 Configuration for ${activeDeployment.network} (chain ${activeChain.id})\n`);
+    for (const check of checks) {
+      console.log(`   ${STATUS_ICONS[check.status]} ${check.name}: ${check.message}`);
+    }
+    console.log(
+      errors
+        ? `\n❌ ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`
+        : `\n✅ Configuration OK${warnings ? ` (${warnings} warning${warnings === 1 ? '' : 's'})` : ''}`
+    );
+  }
+
+  process.exit(errors ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
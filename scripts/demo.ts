@@ -22,21 +22,23 @@ import {
   encodeFunctionData,
 } from 'viem';
 import {
-  bscTestnet,
+  StakingVaultABI,
+  UnstakeDelegateABI,
+  ZeroGTokenABI,
+  estimateRescueGas,
+} from '@zero-g/sdk';
+import {
+  activeChain,
   getDeployerAccount,
   getRelayerAccount,
   getUserAccount,
   getContractAddresses,
 } from './utils/config';
-import {
-  StakingVaultABI,
-  UnstakeDelegateABI,
-  ZeroGTokenABI,
-} from './utils/abis';
-import { createMevProtectedRelayer } from './utils/mevProtection';
+import { loadConfig } from './utils/configLoader';
+import { createMevProtectedRelayer, getMevProtectionConfigFromEnv } from './utils/mevProtection';
 
 const publicClient = createPublicClient({
-  chain: bscTestnet,
+  chain: activeChain,
   transport: http(),
 });
 
@@ -47,29 +49,31 @@ async function sleep(ms: number) {
 async function main() {
   console.log('╔═══════════════════════════════════════════════════════════════╗');
   console.log('║          Zero-G Unstake - Full Demo                           ║');
-  console.log('║          Gasless Emergency Exit on BSC Testnet                ║');
+  console.log(`║          ${`Gasless Emergency Exit on ${activeChain.name}`.padEnd(53)}║`);
   console.log('╚═══════════════════════════════════════════════════════════════╝');
 
+  await loadConfig({ signers: ['DEPLOYER', 'RELAYER', 'USER'] });
+
   const contracts = getContractAddresses();
-  const deployer = getDeployerAccount();
-  const relayer = getRelayerAccount();
-  const user = getUserAccount();
+  const deployer = await getDeployerAccount();
+  const relayer = await getRelayerAccount();
+  const user = await getUserAccount();
 
   const deployerWallet = createWalletClient({
     account: deployer,
-    chain: bscTestnet,
+    chain: activeChain,
     transport: http(),
   });
 
   const relayerWallet = createWalletClient({
     account: relayer,
-    chain: bscTestnet,
+    chain: activeChain,
     transport: http(),
   });
 
   const userWallet = createWalletClient({
     account: user,
-    chain: bscTestnet,
+    chain: activeChain,
     transport: http(),
   });
 
@@ -100,7 +104,7 @@ async function main() {
     args: [user.address],
   });
 
-  console.log(`\n   User BNB: ${formatEther(userBnbBalance)} tBNB`);
+  console.log(`\n   User BNB: ${formatEther(userBnbBalance)} ${activeChain.nativeCurrency.symbol}`);
   console.log(`   User ZGT: ${formatEther(userTokenBalance)} ZGT`);
   console.log(`   User Staked: ${formatEther(userStaked)} ZGT`);
 
@@ -232,7 +236,7 @@ async function main() {
     args: [user.address],
   });
 
-  console.log(`\n   User BNB Balance: ${formatEther(finalUserBnb)} tBNB`);
+  console.log(`\n   User BNB Balance: ${formatEther(finalUserBnb)} ${activeChain.nativeCurrency.symbol}`);
   console.log(`   User ZGT Balance: ${formatEther(finalUserTokens)} ZGT`);
   console.log(`   User Staked: ${formatEther(finalStaked)} ZGT`);
 
@@ -284,17 +288,13 @@ async function main() {
     args: [relayer.address],
   });
 
-  console.log(`\n   Relayer BNB: ${formatEther(await publicClient.getBalance({ address: relayer.address }))} tBNB`);
+  console.log(`\n   Relayer BNB: ${formatEther(await publicClient.getBalance({ address: relayer.address }))} ${activeChain.nativeCurrency.symbol}`);
   console.log(`   Relayer ZGT: ${formatEther(relayerBalanceBefore)} ZGT`);
 
   console.log('\n   Submitting EIP-7702 rescue transaction with MEV protection...');
 
   // Create MEV-protected relayer
-  const mevRelayer = createMevProtectedRelayer(relayer, bscTestnet, {
-    enabled: true,
-    provider: 'mev-blocker',
-    fallbackToPublic: true,
-  });
+  const mevRelayer = createMevProtectedRelayer(relayer, activeChain, getMevProtectionConfigFromEnv(), publicClient);
 
   // Encode the rescue call
   const rescueCallData = encodeFunctionData({
@@ -303,17 +303,28 @@ async function main() {
     args: [contracts.vault, relayer.address, estFee * 2n], // 2x fee as max
   });
 
+  // EIP-7702 transactions need more gas than regular ones; simulate to size the limit
+  const gasEstimate = await estimateRescueGas(publicClient, {
+    account: relayer.address,
+    to: user.address,
+    data: rescueCallData,
+    authorizationList: [authorization],
+    delegate: contracts.delegate,
+  });
+  console.log(`   Gas Limit: ${gasEstimate.gas} (${gasEstimate.source})`);
+
   // Submit the transaction with authorization list using MEV protection
-  // EIP-7702 transactions require more gas than regular transactions
   const rescueResult = await mevRelayer.sendProtectedTransaction({
     to: user.address, // Call the user's EOA (which has delegate code via 7702)
     data: rescueCallData,
     authorizationList: [authorization],
-    gas: 500000n, // EIP-7702 transactions need more gas
+    gas: gasEstimate.gas,
   });
 
   console.log(`   Transaction Hash: ${rescueResult.hash}`);
-  console.log(`   MEV Protected: ${rescueResult.wasProtected ? '✅ Yes' : '⚠️ No (testnet)'}`);
+  console.log(
+    `   MEV Protected: ${rescueResult.wasProtected ? `✅ Yes (${rescueResult.provider})` : '⚠️ No (public mempool)'}`
+  );
   console.log('   Waiting for confirmation...');
 
   const receipt = await publicClient.waitForTransactionReceipt({
@@ -353,7 +364,7 @@ async function main() {
   });
 
   console.log('\n   📊 User Final State:');
-  console.log(`      BNB: ${formatEther(userFinalBnb)} tBNB (unchanged!)`);
+  console.log(`      BNB: ${formatEther(userFinalBnb)} ${activeChain.nativeCurrency.symbol} (unchanged!)`);
   console.log(`      ZGT: ${formatEther(userFinalTokens)} ZGT`);
   console.log(`      Staked: ${formatEther(userFinalStaked)} ZGT`);
 
@@ -371,7 +382,7 @@ async function main() {
   console.log('\n═══════════════════════════════════════════════════════════════');
   console.log('✅ Demo Complete! Zero-G Unstake Works!');
   console.log('═══════════════════════════════════════════════════════════════');
-  console.log(`\n   View on BscScan: https://testnet.bscscan.com/tx/${rescueResult.hash}`);
+  console.log(`\n   View on ${activeChain.blockExplorers?.default.name}: ${activeChain.blockExplorers?.default.url}/tx/${rescueResult.hash}`);
 }
 
 main().catch(console.error);
@@ -0,0 +1,181 @@
+/**
+ * Zero-G Unstake - ABI Generator
+ *
+ * Writes the TypeScript ABIs in packages/sdk/src/abis.ts from the Foundry
+ * build artifacts (out/<Contract>.sol/<Contract>.json), so they can't drift
+ * from the contracts:
+ *
+ *   forge build && npm run abis      Regenerate packages/sdk/src/abis.ts
+ *   npm run abis:check               Exit 1 when the committed file is stale
+ *
+ * Output is deterministic: entries are sorted by kind and name, and
+ * internalType (Solidity-only metadata) is dropped.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+
+// ============ Configuration ============
+
+const ROOT = path.resolve(__dirname, '..');
+
+const ABIS_FILE = path.join(ROOT, 'packages/sdk/src/abis.ts');
+
+// Contract name -> exported constant, in output order
+const CONTRACTS: Record<string, string> = {
+  ZeroGToken: 'ZeroGTokenABI',
+  StakingVault: 'StakingVaultABI',
+  UnstakeDelegate: 'UnstakeDelegateABI',
+  RescueBatcher: 'RescueBatcherABI',
+};
+
+const HEADER = `/**
+ * ABI definitions for Zero-G Unstake contracts
+ *
+ * Generated by scripts/generateAbis.ts from the Foundry artifacts in out/.
+ * Do not edit by hand: run \`forge build && npm run abis\` after changing a
+ * contract (\`npm run abis:check\` verifies this file is up to date).
+ */
+`;
+
+// Entries are sorted by kind first, then by name
+const KIND_ORDER = ['constructor', 'function', 'event', 'error', 'fallback', 'receive'];
+
+// Key order of ABI entries and parameters in the output
+const ENTRY_KEYS = ['type', 'name', 'inputs', 'outputs', 'stateMutability', 'anonymous'];
+const PARAM_KEYS = ['name', 'type', 'indexed', 'components'];
+
+// Longest line an object or array is kept on
+const MAX_LINE = 100;
+
+// ============ Normalization ============
+
+type AbiValue = string | number | boolean | AbiValue[] | { [key: string]: AbiValue };
+
+function normalizeParam(param: any): Record<string, AbiValue> {
+  const normalized: Record<string, AbiValue> = {};
+  for (const key of PARAM_KEYS) {
+    if (param[key] === undefined) continue;
+    normalized[key] = key === 'components' ? param.components.map(normalizeParam) : param[key];
+  }
+  return normalized;
+}
+
+function normalizeEntry(entry: any): Record<string, AbiValue> {
+  const normalized: Record<string, AbiValue> = {};
+  for (const key of ENTRY_KEYS) {
+    if (entry[key] === undefined) continue;
+    normalized[key] = key === 'inputs' || key === 'outputs' ? entry[key].map(normalizeParam) : entry[key];
+  }
+  return normalized;
+}
+
+function sortEntries(abi: any[]): any[] {
+  return [...abi].sort(
+    (a, b) =>
+      KIND_ORDER.indexOf(a.type) - KIND_ORDER.indexOf(b.type) || String(a.name ?? '').localeCompare(String(b.name ?? ''))
+  );
+}
+
+// ============ Rendering ============
+
+function renderInline(value: AbiValue): string {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '[]' : `[${value.map(renderInline).join(', ')}]`;
+  }
+  if (typeof value === 'object') {
+    return `{ ${Object.entries(value)
+      .map(([key, item]) => `${key}: ${renderInline(item)}`)
+      .join(', ')} }`;
+  }
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : String(value);
+}
+
+/**
+ * Render a value as TypeScript, keeping it on one line when it fits
+ */
+function render(value: AbiValue, indent: string, prefix: string = ''): string {
+  const inline = renderInline(value);
+  if (typeof value !== 'object' || indent.length + prefix.length + inline.length + 1 <= MAX_LINE) {
+    return inline;
+  }
+
+  const inner = indent + '  ';
+  if (Array.isArray(value)) {
+    return `[\n${value.map((item) => `${inner}${render(item, inner)},\n`).join('')}${indent}]`;
+  }
+  return `{\n${Object.entries(value)
+    .map(([key, item]) => `${inner}${key}: ${render(item, inner, `${key}: `)},\n`)
+    .join('')}${indent}}`;
+}
+
+function renderAbis(abis: Record<string, any[]>): string {
+  const sections = Object.entries(CONTRACTS).map(([contract, constant]) => {
+    const entries = sortEntries(abis[contract]).map(normalizeEntry);
+    return `export const ${constant} = ${render(entries, '')} as const;\n`;
+  });
+  return `${HEADER}\n${sections.join('\n')}`;
+}
+
+// ============ Artifacts ============
+
+function readArtifactAbi(outDir: string, contract: string): any[] {
+  const file = path.join(outDir, `${contract}.sol`, `${contract}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Missing artifact ${path.relative(ROOT, file)}; run \`forge build\` first`);
+  }
+  const artifact = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(artifact.abi)) {
+    throw new Error(`${path.relative(ROOT, file)} has no abi`);
+  }
+  return artifact.abi;
+}
+
+// ============ Main ============
+
+function main() {
+  const { values: options } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      check: { type: 'boolean', default: false },
+      out: { type: 'string', default: path.join(ROOT, 'out') },
+    },
+  });
+
+  const abis: Record<string, any[]> = {};
+  for (const contract of Object.keys(CONTRACTS)) {
+    abis[contract] = readArtifactAbi(path.resolve(options.out!), contract);
+  }
+  const generated = renderAbis(abis);
+
+  if (!options.check) {
+    fs.writeFileSync(ABIS_FILE, generated);
+    console.log(`✅ Wrote ${path.relative(ROOT, ABIS_FILE)} (${Object.values(CONTRACTS).join(', ')})`);
+    return;
+  }
+
+  const committed = fs.existsSync(ABIS_FILE) ? fs.readFileSync(ABIS_FILE, 'utf-8') : '';
+  if (committed === generated) {
+    console.log(`✅ ${path.relative(ROOT, ABIS_FILE)} matches the Foundry artifacts`);
+    return;
+  }
+
+  // Name the constants that changed so the drift is easy to find
+  const stale = Object.values(CONTRACTS).filter((constant) => {
+    const section = (text: string) => text.match(new RegExp(`export const ${constant} = [\\s\\S]*? as const;`))?.[0];
+    return section(committed) !== section(generated);
+  });
+  console.error(
+    `❌ ${path.relative(ROOT, ABIS_FILE)} is out of date${stale.length ? ` (${stale.join(', ')})` : ''}. ` +
+      'Run `forge build && npm run abis` and commit the result.'
+  );
+  process.exit(1);
+}
+
+try {
+  main();
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
@@ -1,75 +1,133 @@
 /**
  * Zero-G Unstake - Relayer Service
  * 
- * This script runs the relayer bot that:
- * 1. Monitors for rescue requests (signed EIP-7702 authorizations)
+ * This script runs the relayer service that:
+ * 1. Accepts rescue requests (signed EIP-7702 authorizations) over HTTP
  * 2. Validates the rescue can be executed
  * 3. Submits the transaction with the authorization list (MEV-protected)
  * 4. Pays gas upfront and gets reimbursed in tokens
  * 
- * Usage: npm run relayer
+ * A batch request ({ userAddress, vaults: [{ vaultAddress, maxFee }], ... })
+ * rescues several of a user's vaults in one executeBatchRescue transaction.
+ * 
+ * Usage:
+ *   npm run relayer                                  - Start the HTTP server
+ *   npm run relayer -- --request ./request.json      - Process a single (or batch) request
+ * 
+ * HTTP API (port RELAYER_PORT, default 3001):
+ *   POST /rescue       - Submit a RescueRequest (as written by userSign.ts)
+ *   POST /rescue/batch - Submit a BatchRescueRequest
+ *   GET  /rescue/:id   - Poll the status of a submitted rescue
+ *   GET  /health      - Relayer liveness and balances
  * 
  * MEV Protection:
- * - Uses private mempools when available (Flashbots/MEV Blocker)
- * - Automatically falls back to public mempool on testnets
+ * - Uses the chain's private RPCs (Flashbots/MEV Blocker on Ethereum,
+ *   48 Club/bloXroute/PancakeSwap on BSC), see MEV_PROVIDER and MEV_RPC_*
+ * - Falls back to the public mempool (always on testnets) and reports it
  */
 
 import {
   createPublicClient,
-  createWalletClient,
   http,
   formatEther,
   parseEther,
-  encodeFunctionData,
   type Hex,
+  type LocalAccount,
   type TransactionReceipt,
 } from 'viem';
-import {
-  bscTestnet,
-  getRelayerAccount,
-  getContractAddresses,
-} from './utils/config';
 import {
   StakingVaultABI,
   UnstakeDelegateABI,
   ZeroGTokenABI,
-} from './utils/abis';
+  buildRescueTransaction,
+  estimateRescueGas,
+  isDelegatedTo,
+  quoteRescue,
+  simulateBatchRescue,
+  simulateRescue,
+  decodeRescueBreakdown,
+  TransactionTracker,
+  TransactionTrackingError,
+  type RescueRejection,
+  type VaultRescue,
+  type VaultRescueResult,
+} from '@zero-g/sdk';
+import {
+  activeChain,
+  activeDeployment,
+  getRelayerAccount,
+  getContractAddresses,
+  getSupportedVaults,
+  findSupportedVault,
+  type SupportedVault,
+} from './utils/config';
 import {
   createMevProtectedRelayer,
+  getMevProtectionConfigFromEnv,
   type MevProtectionConfig,
 } from './utils/mevProtection';
-
-// Types for EIP-7702
-interface SignedAuthorization {
-  contractAddress: `0x${string}`;
-  chainId: number;
-  nonce: bigint;
-  v: number;
-  r: `0x${string}`;
-  s: `0x${string}`;
-}
-
-interface RescueRequest {
-  userAddress: `0x${string}`;
-  vaultAddress: `0x${string}`;
-  authorization: SignedAuthorization;
-  maxFee: bigint;
-  timestamp: number;
-}
+import {
+  isBatchRescueRequest,
+  parseBatchRescueRequest,
+  parseRescueRequest,
+  toAuthorizationTuple,
+  type BatchRescueRequest,
+  type RescueRequest,
+} from './utils/rescueRequest';
+import {
+  createPriceSourceFromEnv,
+  evaluateBatchProfitability,
+  evaluateProfitability,
+  DEFAULT_MIN_PROFIT_BPS,
+  type ProfitEstimate,
+} from './utils/profitability';
+import { createRescueServer } from './utils/rescueServer';
+import { loadConfig } from './utils/configLoader';
+import * as fs from 'fs';
+import * as path from 'path';
 
 // Create clients
 const publicClient = createPublicClient({
-  chain: bscTestnet,
+  chain: activeChain,
   transport: http(),
 });
 
-const relayerAccount = getRelayerAccount();
+// Set in main() once the relayer's signer is loaded
+let relayerAccount: LocalAccount;
 
-const walletClient = createWalletClient({
-  account: relayerAccount,
-  chain: bscTestnet,
-  transport: http(),
-});
+// Profitability check (disabled when no token price is configured)
+const priceSource = createPriceSourceFromEnv();
+const minProfitBps = parseInt(process.env.MIN_PROFIT_BPS || String(DEFAULT_MIN_PROFIT_BPS), 10);
+
+function unsupportedVault(vaultAddress: string): { valid: false; reason: string; rejection: RescueRejection } {
+  const reason = `Vault ${vaultAddress} is not supported by this relayer`;
+  return {
+    valid: false,
+    reason,
+    rejection: {
+      code: 'UNSUPPORTED_VAULT',
+      message: reason,
+      details: { supportedVaults: getSupportedVaults().map((v) => v.address).join(',') },
+    },
+  };
+}
+
+function unprofitable(profit: ProfitEstimate): { valid: false; reason: string; rejection: RescueRejection } {
+  console.log(`   💸 Not profitable (${profit.decision}): ${profit.reason}`);
+  return {
+    valid: false,
+    reason: profit.reason,
+    rejection: {
+      code: 'UNPROFITABLE',
+      message: profit.reason,
+      details: {
+        decision: profit.decision,
+        feeValueWei: profit.feeValueWei.toString(),
+        gasCostWei: profit.gasCostWei.toString(),
+      },
+    },
+  };
+}
 
 /**
  * Check if a rescue request is valid and can be executed
@@ -77,6 +135,7 @@ const walletClient = createWalletClient({
 async function validateRescueRequest(request: RescueRequest): Promise<{
   valid: boolean;
   reason?: string;
+  rejection?: RescueRejection;
   estimate?: {
     stakedAmount: bigint;
     estimatedFee: bigint;
@@ -85,6 +144,12 @@ async function validateRescueRequest(request: RescueRequest): Promise<{
 }> {
   const contracts = getContractAddresses();
 
+  // Only rescue from vaults we know (and whose fee token we can price)
+  const vault = findSupportedVault(request.vaultAddress);
+  if (!vault) {
+    return unsupportedVault(request.vaultAddress);
+  }
+
   try {
     // Check if user can unstake
     const canUnstake = await publicClient.readContract({
@@ -118,13 +183,11 @@ async function validateRescueRequest(request: RescueRequest): Promise<{
     }
 
     // Get rescue estimate
-    const [stakedAmount, estimatedFee, userWouldReceive, canRescue] =
-      await publicClient.readContract({
-        address: contracts.delegate,
-        abi: UnstakeDelegateABI,
-        functionName: 'estimateRescue',
-        args: [request.vaultAddress, request.userAddress],
-      });
+    const { stakedAmount, estimatedFee, userWouldReceive, canRescue } = await quoteRescue(publicClient, {
+      delegate: contracts.delegate,
+      vault: request.vaultAddress,
+      user: request.userAddress,
+    });
 
     if (!canRescue) {
       return { valid: false, reason: 'Cannot rescue at this time' };
@@ -138,6 +201,45 @@ async function validateRescueRequest(request: RescueRequest): Promise<{
       };
     }
 
+    // Dry-run the exact transaction so we never pay gas for a revert
+    const simulation = await simulateRescue(publicClient, {
+      relayer: relayerAccount.address,
+      user: request.userAddress,
+      vault: request.vaultAddress,
+      maxFee: request.maxFee,
+      authorization: toAuthorizationTuple(request.authorization),
+      delegate: contracts.delegate,
+    });
+
+    if (!simulation.ok) {
+      return { valid: false, reason: simulation.reason.message, rejection: simulation.reason };
+    }
+
+    // Refuse rescues whose fee doesn't cover the gas we'd pay for them
+    if (priceSource) {
+      const gasEstimate = await estimateRescueGas(publicClient, {
+        account: relayerAccount.address,
+        ...buildRescueTransaction({
+          user: request.userAddress,
+          relayer: relayerAccount.address,
+          vaults: [{ vault: request.vaultAddress, maxFee: request.maxFee }],
+          authorization: simulation.delegated ? undefined : toAuthorizationTuple(request.authorization),
+        }),
+        delegate: request.authorization.contractAddress,
+      });
+      const profit = await evaluateProfitability(publicClient, {
+        token: vault.token,
+        feeTokens: estimatedFee,
+        gas: gasEstimate.simulated ?? gasEstimate.gas,
+        minProfitBps,
+        priceSource,
+      });
+
+      if (profit.decision !== 'execute') {
+        return unprofitable(profit);
+      }
+    }
+
     return {
       valid: true,
       estimate: { stakedAmount, estimatedFee, userWouldReceive },
@@ -147,82 +249,275 @@ async function validateRescueRequest(request: RescueRequest): Promise<{
   }
 }
 
+/**
+ * Check that every vault in a batch request can be rescued
+ * The batch is atomic, so each vault is checked up front to report which
+ * one would make it revert
+ */
+async function validateBatchRescueRequest(request: BatchRescueRequest): Promise<{
+  valid: boolean;
+  reason?: string;
+  rejection?: RescueRejection;
+  estimate?: {
+    vaultAddress: `0x${string}`;
+    stakedAmount: bigint;
+    estimatedFee: bigint;
+    userWouldReceive: bigint;
+  }[];
+}> {
+  const contracts = getContractAddresses();
+
+  const vaults: SupportedVault[] = [];
+  for (const { vaultAddress } of request.vaults) {
+    const vault = findSupportedVault(vaultAddress);
+    if (!vault) return unsupportedVault(vaultAddress);
+    vaults.push(vault);
+  }
+
+  try {
+    const estimates = await Promise.all(
+      request.vaults.map(({ vaultAddress }) =>
+        publicClient.readContract({
+          address: contracts.delegate,
+          abi: UnstakeDelegateABI,
+          functionName: 'estimateRescue',
+          args: [vaultAddress, request.userAddress],
+        })
+      )
+    );
+
+    for (const [i, [stakedAmount, estimatedFee, , canRescue]] of estimates.entries()) {
+      const { vaultAddress, maxFee } = request.vaults[i];
+      if (!canRescue || stakedAmount === 0n) {
+        const reason = `Cannot rescue vault ${vaultAddress} at this time (locked or no stake)`;
+        return {
+          valid: false,
+          reason,
+          rejection: { code: 'CANNOT_UNSTAKE', message: reason, details: { vault: vaultAddress } },
+        };
+      }
+      if (estimatedFee > maxFee) {
+        const reason = `Fee ${formatEther(estimatedFee)} exceeds max ${formatEther(maxFee)} for vault ${vaultAddress}`;
+        return {
+          valid: false,
+          reason,
+          rejection: {
+            code: 'FEE_TOO_HIGH',
+            message: reason,
+            details: { vault: vaultAddress, requested: String(estimatedFee), maxAllowed: String(maxFee) },
+          },
+        };
+      }
+    }
+
+    const vaultAddresses = request.vaults.map((v) => v.vaultAddress);
+    const maxFees = request.vaults.map((v) => v.maxFee);
+    const simulation = await simulateBatchRescue(publicClient, {
+      relayer: relayerAccount.address,
+      user: request.userAddress,
+      vaults: vaultAddresses,
+      maxFees,
+      authorization: toAuthorizationTuple(request.authorization),
+      delegate: contracts.delegate,
+    });
+
+    if (!simulation.ok) {
+      return { valid: false, reason: simulation.reason.message, rejection: simulation.reason };
+    }
+
+    // The batch pays one transaction's gas out of every vault's fee
+    if (priceSource) {
+      const gasEstimate = await estimateRescueGas(publicClient, {
+        account: relayerAccount.address,
+        ...buildRescueTransaction({
+          user: request.userAddress,
+          relayer: relayerAccount.address,
+          vaults: request.vaults.map((v) => ({ vault: v.vaultAddress, maxFee: v.maxFee })),
+          authorization: simulation.delegated ? undefined : toAuthorizationTuple(request.authorization),
+        }),
+        delegate: request.authorization.contractAddress,
+      });
+      const profit = await evaluateBatchProfitability(publicClient, {
+        fees: estimates.map(([, estimatedFee], i) => ({ token: vaults[i].token, feeTokens: estimatedFee })),
+        gas: gasEstimate.simulated ?? gasEstimate.gas,
+        minProfitBps,
+        priceSource,
+      });
+
+      if (profit.decision !== 'execute') {
+        return unprofitable(profit);
+      }
+    }
+
+    return {
+      valid: true,
+      estimate: estimates.map(([stakedAmount, estimatedFee, userWouldReceive], i) => ({
+        vaultAddress: request.vaults[i].vaultAddress,
+        stakedAmount,
+        estimatedFee,
+        userWouldReceive,
+      })),
+    };
+  } catch (error) {
+    return { valid: false, reason: `Validation error: ${error}` };
+  }
+}
+
 // MEV Protection configuration (can be overridden via environment)
 const mevConfig: Partial<MevProtectionConfig> = {
-  enabled: process.env.MEV_PROTECTION !== 'false', // Enabled by default
-  provider: (process.env.MEV_PROVIDER as 'flashbots' | 'mev-blocker' | 'public') || 'mev-blocker',
-  fallbackToPublic: true,
+  ...getMevProtectionConfigFromEnv(),
   maxRetries: 3,
 };
 
-/**
- * Execute a rescue transaction with EIP-7702 authorization
- * Uses MEV protection to prevent front-running/sandwich attacks
- */
-async function executeRescue(request: RescueRequest): Promise<{
+interface RescueTransactionResult {
   success: boolean;
   txHash?: Hex;
+  // Earlier versions of txHash (speed-ups or a cancellation)
+  replacedTxHashes?: Hex[];
+  cancelled?: boolean;
   receipt?: TransactionReceipt;
   error?: string;
   mevProtected?: boolean;
-}> {
-  const contracts = getContractAddresses();
+  // Per-vault amounts from the RescueExecuted events (confirmed rescues only)
+  breakdown?: VaultRescueResult[];
+}
 
+/**
+ * Execute a rescue transaction with EIP-7702 authorization
+ * Uses MEV protection to prevent front-running/sandwich attacks
+ */
+async function executeRescue(
+  request: RescueRequest,
+  onSubmitted?: (txHash: Hex) => void
+): Promise<RescueTransactionResult> {
   console.log('\n🚀 Executing rescue transaction...');
   console.log(`   User: ${request.userAddress}`);
   console.log(`   Vault: ${request.vaultAddress}`);
   console.log(`   Max Fee: ${formatEther(request.maxFee)} ZGT`);
 
+  return sendRescueTransaction(request, [{ vault: request.vaultAddress, maxFee: request.maxFee }], onSubmitted);
+}
+
+/**
+ * Rescue several of a user's vaults in one executeBatchRescue transaction
+ */
+async function executeBatchRescue(
+  request: BatchRescueRequest,
+  onSubmitted?: (txHash: Hex) => void
+): Promise<RescueTransactionResult> {
+  console.log('\n🚀 Executing batch rescue transaction...');
+  console.log(`   User: ${request.userAddress}`);
+  for (const { vaultAddress, maxFee } of request.vaults) {
+    console.log(`   Vault: ${vaultAddress} (max fee ${formatEther(maxFee)})`);
+  }
+
+  const result = await sendRescueTransaction(
+    request,
+    request.vaults.map((v) => ({ vault: v.vaultAddress, maxFee: v.maxFee })),
+    onSubmitted
+  );
+  for (const vault of result.breakdown ?? []) {
+    console.log(
+      `   🏦 ${vault.vaultAddress}: unstaked ${formatEther(vault.totalUnstaked)}, fee ${formatEther(vault.relayerFee)}, user ${formatEther(vault.userReceived)}`
+    );
+  }
+  return result;
+}
+
+/**
+ * Send a rescue of the given vaults to the user's EOA and wait for it to confirm
+ */
+async function sendRescueTransaction(
+  request: Pick<RescueRequest, 'userAddress' | 'authorization'>,
+  vaults: VaultRescue[],
+  onSubmitted?: (txHash: Hex) => void
+): Promise<RescueTransactionResult> {
+  const contracts = getContractAddresses();
+
   try {
     // Create MEV-protected relayer
-    const protectedRelayer = createMevProtectedRelayer(relayerAccount, bscTestnet, mevConfig);
-    
-    // Encode the executeRescue call data
-    const callData = encodeFunctionData({
-      abi: UnstakeDelegateABI,
-      functionName: 'executeRescue',
-      args: [request.vaultAddress, relayerAccount.address, request.maxFee],
+    const protectedRelayer = createMevProtectedRelayer(relayerAccount, activeChain, mevConfig, publicClient);
+
+    // After a rescue from another vault the user is already delegated and
+    // the authorization nonce is spent; send a plain call in that case
+    const delegated = await isDelegatedTo(publicClient, request.userAddress, contracts.delegate);
+    const transaction = buildRescueTransaction({
+      user: request.userAddress,
+      relayer: relayerAccount.address,
+      vaults,
+      authorization: delegated ? undefined : toAuthorizationTuple(request.authorization),
     });
 
+    // Simulate the rescue to size the gas limit
+    const gasEstimate = await estimateRescueGas(publicClient, {
+      account: relayerAccount.address,
+      ...transaction,
+      delegate: request.authorization.contractAddress,
+    });
+    console.log(`   Gas Limit: ${gasEstimate.gas} (${gasEstimate.source})`);
+
     // Build the EIP-7702 transaction with MEV protection
     // The transaction is sent TO the user's address (which will have delegate code)
-    // The authorizationList contains the signed delegation
+    // The authorizationList, when needed, contains the signed delegation
     const result = await protectedRelayer.sendProtectedTransaction({
-      to: request.userAddress,
-      data: callData,
-      gas: 500000n, // EIP-7702 transactions need more gas
-      authorizationList: [
-        {
-          address: request.authorization.contractAddress,
-          chainId: request.authorization.chainId,
-          nonce: Number(request.authorization.nonce),
-          r: request.authorization.r,
-          s: request.authorization.s,
-          yParity: request.authorization.v === 27 ? 0 : 1,
-        },
-      ] as any,
+      ...transaction,
+      gas: gasEstimate.gas,
     });
 
     console.log(`   ✅ Transaction submitted: ${result.hash}`);
-    console.log(`   🛡️  MEV Protected: ${result.wasProtected ? 'Yes' : 'No'}`);
+    console.log(`   🛡️  MEV Protected: ${result.wasProtected ? `Yes (${result.provider})` : 'No (public mempool)'}`);
+    onSubmitted?.(result.hash);
 
-    // Wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({
-      hash: result.hash,
+    // Wait for confirmation, speeding the transaction up if it gets stuck
+    const tracked = await new TransactionTracker(publicClient, protectedRelayer.asTransactionSender()).track(result, {
+      onReplaced: (hash) => onSubmitted?.(hash),
     });
+    const { receipt } = tracked;
+    const replacedTxHashes = tracked.hashes.filter((hash) => hash !== tracked.hash);
+
+    if (tracked.cancelled) {
+      return {
+        success: false,
+        txHash: tracked.hash,
+        replacedTxHashes,
+        cancelled: true,
+        receipt,
+        error: 'Rescue cancelled after staying pending too long',
+        mevProtected: result.wasProtected,
+      };
+    }
 
     if (receipt.status === 'success') {
       console.log(`   ✅ Transaction confirmed in block ${receipt.blockNumber}`);
       return { 
         success: true, 
-        txHash: result.hash, 
+        txHash: tracked.hash, 
+        replacedTxHashes,
         receipt,
         mevProtected: result.wasProtected,
+        breakdown: decodeRescueBreakdown(receipt.logs, request.userAddress),
       };
     } else {
-      return { success: false, txHash: result.hash, error: 'Transaction reverted' };
+      return {
+        success: false,
+        txHash: tracked.hash,
+        replacedTxHashes,
+        receipt,
+        error: 'Transaction reverted',
+        mevProtected: result.wasProtected,
+      };
     }
   } catch (error) {
+    if (error instanceof TransactionTrackingError) {
+      // Not a failed rescue: report every hash, one of them may still be mined
+      console.error(`   ⚠️ ${error.message}`);
+      return {
+        success: false,
+        txHash: error.hashes[error.hashes.length - 1],
+        replacedTxHashes: error.hashes.slice(0, -1),
+        error: `${error.message}; the transaction may still be mined`,
+      };
+    }
     console.error(`   ❌ Transaction failed:`, error);
     return { success: false, error: String(error) };
   }
@@ -253,8 +548,7 @@ async function getRelayerStatus() {
 }
 
 /**
- * Process a rescue request from a file or API
- * In production, this would listen to a queue, API, or blockchain events
+ * Process a single rescue request synchronously (CLI mode)
  */
 async function processRescueRequest(request: RescueRequest) {
   console.log('\n📥 Processing rescue request...');
@@ -276,12 +570,42 @@ async function processRescueRequest(request: RescueRequest) {
 
   if (result.success) {
     console.log('\n🎉 Rescue successful!');
-    console.log(`   Tx: https://testnet.bscscan.com/tx/${result.txHash}`);
+    console.log(`   Tx: ${activeChain.blockExplorers?.default.url}/tx/${result.txHash}`);
   } else {
     console.log(`\n❌ Rescue failed: ${result.error}`);
   }
 }
 
+/**
+ * Process a batch rescue request synchronously (CLI mode)
+ */
+async function processBatchRescueRequest(request: BatchRescueRequest) {
+  console.log(`\n📥 Processing batch rescue request for ${request.vaults.length} vaults...`);
+
+  const validation = await validateBatchRescueRequest(request);
+  if (!validation.valid) {
+    console.log(`❌ Validation failed: ${validation.reason}`);
+    return;
+  }
+
+  console.log('✅ Request validated');
+  for (const vault of validation.estimate!) {
+    console.log(`   ${vault.vaultAddress}:`);
+    console.log(`      Staked: ${formatEther(vault.stakedAmount)}`);
+    console.log(`      Fee: ${formatEther(vault.estimatedFee)}`);
+    console.log(`      User receives: ${formatEther(vault.userWouldReceive)}`);
+  }
+
+  const result = await executeBatchRescue(request);
+
+  if (result.success) {
+    console.log(`\n🎉 Batch rescue successful! (${result.breakdown?.length ?? 0} vaults)`);
+    console.log(`   Tx: ${activeChain.blockExplorers?.default.url}/tx/${result.txHash}`);
+  } else {
+    console.log(`\n❌ Batch rescue failed: ${result.error}`);
+  }
+}
+
 /**
  * Main relayer loop
  */
@@ -290,11 +614,14 @@ async function main() {
   console.log('║     Zero-G Unstake - Relayer Service      ║');
   console.log('╚═══════════════════════════════════════════╝');
 
+  await loadConfig({ signers: ['RELAYER'] });
+  relayerAccount = await getRelayerAccount();
+
   // Check relayer status
   const status = await getRelayerStatus();
   console.log('\n📊 Relayer Status:');
   console.log(`   Address: ${status.address}`);
-  console.log(`   BNB Balance: ${formatEther(status.bnbBalance)} tBNB`);
+  console.log(`   BNB Balance: ${formatEther(status.bnbBalance)} ${activeChain.nativeCurrency.symbol}`);
   console.log(`   ZGT Balance: ${formatEther(status.tokenBalance)} ZGT`);
 
   if (status.bnbBalance < parseEther('0.01')) {
@@ -307,26 +634,95 @@ async function main() {
   console.log(`   Vault: ${contracts.vault}`);
   console.log(`   Delegate: ${contracts.delegate}`);
 
-  console.log('\n👂 Relayer is ready to process rescue requests.');
-  console.log('   In production, this would listen for incoming requests.');
-  console.log('   For demo, use the userSign.ts script to generate a request.');
+  console.log('\n🏦 Supported Vaults:');
+  for (const vault of getSupportedVaults()) {
+    console.log(`   ${vault.address} (token ${vault.token})`);
+  }
 
-  // For demo purposes, we'll just show the relayer is running
-  // In production, you would:
-  // 1. Listen to a message queue (Redis, RabbitMQ, etc.)
-  // 2. Watch blockchain events
-  // 3. Expose an API endpoint for users to submit requests
+  console.log(
+    priceSource
+      ? `\n💸 Profitability check: ${priceSource.name} prices, min margin ${minProfitBps} bps`
+      : '\n💸 Profitability check disabled (set TOKEN_PRICE_BNB or PRICE_SOURCE)'
+  );
 
-  // Example: Process a single request if provided via command line
-  if (process.argv[2] === '--request') {
+  // CLI mode: process a single request and exit
+  const requestArg = process.argv.indexOf('--request');
+  if (requestArg !== -1) {
     try {
-      const requestFile = process.argv[3];
-      const request = require(requestFile) as RescueRequest;
-      await processRescueRequest(request);
+      const requestFile = path.resolve(process.argv[requestArg + 1]);
+      const body = JSON.parse(fs.readFileSync(requestFile, 'utf-8'));
+      if (isBatchRescueRequest(body)) {
+        await processBatchRescueRequest(parseBatchRescueRequest(body));
+      } else {
+        await processRescueRequest(parseRescueRequest(body));
+      }
     } catch (error) {
+      console.log(`\n❌ Could not process request: ${error}`);
       console.log('\n💡 Usage: npm run relayer -- --request ./request.json');
     }
+    return;
   }
+
+  const server = createRescueServer({
+    validate: validateRescueRequest,
+    execute: async (request, onSubmitted) => {
+      const result = await executeRescue(request, onSubmitted);
+      return {
+        success: result.success,
+        txHash: result.txHash,
+        replacedTxHashes: result.replacedTxHashes,
+        cancelled: result.cancelled,
+        blockNumber: result.receipt?.blockNumber,
+        gasUsed: result.receipt?.gasUsed,
+        mevProtected: result.mevProtected,
+        error: result.error,
+        breakdown: result.breakdown,
+      };
+    },
+    validateBatch: validateBatchRescueRequest,
+    executeBatch: async (request, onSubmitted) => {
+      const result = await executeBatchRescue(request, onSubmitted);
+      return {
+        success: result.success,
+        txHash: result.txHash,
+        replacedTxHashes: result.replacedTxHashes,
+        cancelled: result.cancelled,
+        blockNumber: result.receipt?.blockNumber,
+        gasUsed: result.receipt?.gasUsed,
+        mevProtected: result.mevProtected,
+        error: result.error,
+        breakdown: result.breakdown,
+      };
+    },
+    health: async () => {
+      const current = await getRelayerStatus();
+      return {
+        relayer: current.address,
+        network: activeDeployment.network,
+        chainId: activeChain.id,
+        bnbBalance: formatEther(current.bnbBalance),
+        tokenBalance: formatEther(current.tokenBalance),
+        // Broadcast endpoints and their success/latency scores
+        mev: createMevProtectedRelayer(relayerAccount, activeChain, mevConfig).getStatus(),
+      };
+    },
+  });
+
+  await server.listen();
+
+  const port = process.env.RELAYER_PORT || '3001';
+  console.log(`\n👂 Relayer is listening on port ${port}`);
+  console.log('   POST /rescue       - Submit a rescue request');
+  console.log('   POST /rescue/batch - Submit a batch rescue request');
+  console.log('   GET  /rescue/:id   - Check rescue status');
+  console.log('   GET  /health       - Relayer health');
+
+  // Handle graceful shutdown
+  process.on('SIGINT', async () => {
+    console.log('\n\n🛑 Shutting down...');
+    await server.close();
+    process.exit(0);
+  });
 }
 
 // Run the relayer
@@ -0,0 +1,99 @@
+/**
+ * Zero-G Unstake - Local Remote Signer
+ *
+ * Serves one key over the Web3Signer-compatible JSON-RPC that
+ * <ROLE>_SIGNER_URL expects, so remote signing can be tried without running
+ * Web3Signer. The key comes from SIGNER_STUB_KEYSTORE or
+ * SIGNER_STUB_PRIVATE_KEY (see utils/signers.ts).
+ *
+ * It signs whatever it is asked to: bind it to localhost and use it for
+ * development only.
+ *
+ * Usage: npm run signer:stub -- [--port 9000]
+ *        RELAYER_SIGNER_URL=http://127.0.0.1:9000 npm run bot
+ */
+
+import * as http from 'http';
+import { parseArgs } from 'util';
+import { formatTransaction, isAddressEqual, type Hex, type LocalAccount } from 'viem';
+import { loadConfig } from './utils/configLoader';
+import { loadSigner } from './utils/signers';
+
+// ============ JSON-RPC ============
+
+async function handle(account: LocalAccount, method: string, params: any[]): Promise<unknown> {
+  // Every signing method names the account first
+  const requireAccount = (address: string) => {
+    if (!isAddressEqual(address as Hex, account.address)) {
+      throw new Error(`Unknown account ${address}`);
+    }
+  };
+
+  switch (method) {
+    case 'eth_accounts':
+      return [account.address];
+
+    case 'eth_sign':
+      requireAccount(params[0]);
+      return account.signMessage({ message: { raw: params[1] } });
+
+    case 'eth_signTransaction': {
+      const { from, ...request } = params[0] ?? {};
+      requireAccount(from);
+      return account.signTransaction(formatTransaction(request) as any);
+    }
+
+    case 'eth_signTypedData': {
+      requireAccount(params[0]);
+      const typedData = typeof params[1] === 'string' ? JSON.parse(params[1]) : params[1];
+      return account.signTypedData(typedData);
+    }
+
+    default:
+      throw new Error(`Method ${method} not supported`);
+  }
+}
+
+// ============ Main ============
+
+async function main() {
+  const { values: options } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: 'string', default: process.env.SIGNER_STUB_PORT || '9000' },
+      host: { type: 'string', default: '127.0.0.1' },
+    },
+  });
+
+  await loadConfig({ onChain: false, signers: ['SIGNER_STUB'] });
+  const account = await loadSigner('SIGNER_STUB');
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      let id: unknown = null;
+      try {
+        const request = JSON.parse(body);
+        id = request.id;
+        const result = await handle(account, request.method, request.params ?? []);
+        console.log(`   ✍️  ${request.method}`);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+      } catch (error: any) {
+        console.log(`   ❌ ${error.message}`);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message: error.message } }));
+      }
+    });
+  });
+
+  server.listen(Number(options.port), options.host, () => {
+    console.log(`🔏 Signing for ${account.address} at http://${options.host}:${options.port}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -1,32 +1,32 @@
 import { createWalletClient, createPublicClient, http, parseEther, formatEther } from 'viem';
-import { sepolia } from 'viem/chains';
-import { privateKeyToAccount } from 'viem/accounts';
-import * as dotenv from 'dotenv';
-
-dotenv.config();
+import { activeChain, getDeployerAccount } from './utils/config';
+import { loadConfig } from './utils/configLoader';
+import { getSignerAddress } from './utils/signers';
 
 async function transfer() {
+  await loadConfig({ signers: ['DEPLOYER', 'USER'] });
+
   // Use deployer instead of relayer
-  const deployer = privateKeyToAccount(process.env.DEPLOYER_PRIVATE_KEY as `0x${string}`);
-  const userAddress = privateKeyToAccount(process.env.USER_PRIVATE_KEY as `0x${string}`).address;
+  const deployer = await getDeployerAccount();
+  const userAddress = await getSignerAddress('USER');
   
   const publicClient = createPublicClient({
-    chain: sepolia,
-    transport: http(process.env.SEPOLIA_RPC),
+    chain: activeChain,
+    transport: http(),
   });
   
   const walletClient = createWalletClient({
     account: deployer,
-    chain: sepolia,
-    transport: http(process.env.SEPOLIA_RPC),
+    chain: activeChain,
+    transport: http(),
   });
   
   // Check balances
   const deployerBal = await publicClient.getBalance({ address: deployer.address });
   const userBal = await publicClient.getBalance({ address: userAddress });
   
-  console.log('Deployer balance:', formatEther(deployerBal), 'ETH');
-  console.log('User balance:', formatEther(userBal), 'ETH');
+  console.log('Deployer balance:', formatEther(deployerBal), activeChain.nativeCurrency.symbol);
+  console.log('User balance:', formatEther(userBal), activeChain.nativeCurrency.symbol);
   console.log('User address:', userAddress);
   
   // Check if user has code (EIP-7702 delegation)
@@ -35,7 +35,7 @@ async function transfer() {
   
   // Transfer 0.002 ETH to user (enough for a few transactions)
   const amount = parseEther('0.002');
-  console.log('\nTransferring 0.002 ETH to user...');
+  console.log(`\nTransferring 0.002 ${activeChain.nativeCurrency.symbol} to user on ${activeChain.name}...`);
   
   const hash = await walletClient.sendTransaction({
     to: userAddress,
@@ -49,7 +49,7 @@ async function transfer() {
   console.log('Confirmed in block:', receipt.blockNumber);
   
   const newUserBal = await publicClient.getBalance({ address: userAddress });
-  console.log('\n✅ New user balance:', formatEther(newUserBal), 'ETH');
+  console.log('\n✅ New user balance:', formatEther(newUserBal), activeChain.nativeCurrency.symbol);
 }
 
 transfer().catch(console.error);
@@ -15,33 +15,35 @@ import {
   http,
   formatEther,
   parseEther,
+  type Chain,
   type Hex,
+  type LocalAccount,
+  type Transport,
+  type WalletClient,
 } from 'viem';
 import {
-  bscTestnet,
+  ZeroGTokenABI,
+  getStake,
+  quoteRescue,
+  signRescueAuthorization,
+} from '@zero-g/sdk';
+import {
+  activeChain,
   getUserAccount,
   getContractAddresses,
 } from './utils/config';
-import {
-  StakingVaultABI,
-  UnstakeDelegateABI,
-  ZeroGTokenABI,
-} from './utils/abis';
+import { loadConfig } from './utils/configLoader';
 import * as fs from 'fs';
 
 // Create clients
 const publicClient = createPublicClient({
-  chain: bscTestnet,
+  chain: activeChain,
   transport: http(),
 });
 
-const userAccount = getUserAccount();
-
-const walletClient = createWalletClient({
-  account: userAccount,
-  chain: bscTestnet,
-  transport: http(),
-});
+// Set in main() once the user's signer is loaded
+let userAccount: LocalAccount;
+let walletClient: WalletClient<Transport, Chain, LocalAccount>;
 
 /**
  * Get user's stake information
@@ -49,55 +51,34 @@ const walletClient = createWalletClient({
 async function getUserStakeInfo() {
   const contracts = getContractAddresses();
 
-  // Get stake info
-  const [stakedAmount, unlockTime] = await publicClient.readContract({
-    address: contracts.vault,
-    abi: StakingVaultABI,
-    functionName: 'stakes',
-    args: [userAccount.address],
-  });
-
-  // Check if can unstake
-  const canUnstake = await publicClient.readContract({
-    address: contracts.vault,
-    abi: StakingVaultABI,
-    functionName: 'canUnstake',
-    args: [userAccount.address],
-  });
-
-  // Get token balance
-  const tokenBalance = await publicClient.readContract({
-    address: contracts.token,
-    abi: ZeroGTokenABI,
-    functionName: 'balanceOf',
-    args: [userAccount.address],
-  });
-
-  // Get BNB balance
-  const bnbBalance = await publicClient.getBalance({
-    address: userAccount.address,
-  });
-
-  // Get rescue estimate
-  const [estStaked, estFee, estUserReceives, canRescue] = await publicClient.readContract({
-    address: contracts.delegate,
-    abi: UnstakeDelegateABI,
-    functionName: 'estimateRescue',
-    args: [contracts.vault, userAccount.address],
-  });
+  const [stake, tokenBalance, bnbBalance, estimate] = await Promise.all([
+    getStake(publicClient, { vault: contracts.vault, user: userAccount.address }),
+    publicClient.readContract({
+      address: contracts.token,
+      abi: ZeroGTokenABI,
+      functionName: 'balanceOf',
+      args: [userAccount.address],
+    }),
+    publicClient.getBalance({ address: userAccount.address }),
+    quoteRescue(publicClient, {
+      delegate: contracts.delegate,
+      vault: contracts.vault,
+      user: userAccount.address,
+    }),
+  ]);
 
   return {
     address: userAccount.address,
-    stakedAmount,
-    unlockTime,
-    canUnstake,
+    stakedAmount: stake.amount,
+    unlockTime: stake.unlockTime,
+    canUnstake: stake.canUnstake,
     tokenBalance,
     bnbBalance,
     estimate: {
-      stakedAmount: estStaked,
-      fee: estFee,
-      userReceives: estUserReceives,
-      canRescue,
+      stakedAmount: estimate.stakedAmount,
+      fee: estimate.estimatedFee,
+      userReceives: estimate.userWouldReceive,
+      canRescue: estimate.canRescue,
     },
   };
 }
@@ -105,30 +86,22 @@ async function getUserStakeInfo() {
 /**
  * Sign an EIP-7702 authorization for the UnstakeDelegate
  */
-async function signRescueAuthorization() {
+async function signAuthorization() {
   const contracts = getContractAddresses();
 
   console.log('\n📝 Signing EIP-7702 authorization...');
   console.log(`   Delegating to: ${contracts.delegate}`);
 
-  // Get the user's current nonce
-  const nonce = await publicClient.getTransactionCount({
-    address: userAccount.address,
-  });
-
-  // Sign the authorization
   // This allows the user's EOA to temporarily use the delegate's code
-  const authorization = await walletClient.signAuthorization({
-    contractAddress: contracts.delegate,
-  });
+  const authorization = await signRescueAuthorization(walletClient, contracts.delegate);
 
   console.log('   ✅ Authorization signed');
 
   return {
-    contractAddress: contracts.delegate,
-    chainId: bscTestnet.id,
-    nonce: BigInt(nonce),
-    v: authorization.v,
+    contractAddress: authorization.address,
+    chainId: authorization.chainId,
+    nonce: BigInt(authorization.nonce),
+    v: authorization.yParity,
     r: authorization.r,
     s: authorization.s,
   };
@@ -149,7 +122,7 @@ async function generateRescueRequest(maxFeeBps: number = 200) {
   const maxFee = (info.stakedAmount * BigInt(maxFeeBps)) / 10000n;
 
   // Sign authorization
-  const authorization = await signRescueAuthorization();
+  const authorization = await signAuthorization();
 
   // Create rescue request
   const request = {
@@ -178,13 +151,21 @@ async function main() {
   console.log('║   Zero-G Unstake - User Authorization     ║');
   console.log('╚═══════════════════════════════════════════╝');
 
+  await loadConfig({ signers: ['USER'] });
+  userAccount = await getUserAccount();
+  walletClient = createWalletClient({
+    account: userAccount,
+    chain: activeChain,
+    transport: http(),
+  });
+
   const contracts = getContractAddresses();
 
   // Get and display user info
   console.log('\n📊 User Status:');
   const info = await getUserStakeInfo();
   console.log(`   Address: ${info.address}`);
-  console.log(`   BNB Balance: ${formatEther(info.bnbBalance)} tBNB`);
+  console.log(`   BNB Balance: ${formatEther(info.bnbBalance)} ${activeChain.nativeCurrency.symbol}`);
   console.log(`   ZGT Balance: ${formatEther(info.tokenBalance)} ZGT`);
 
   console.log('\n📦 Stake Info:');
@@ -244,17 +225,7 @@ async function main() {
   console.log('\n   Option B: Register for auto-unstake bot');
   console.log('      The bot will automatically rescue you when eligible.');
   console.log('      Run this command to register:');
-  
-  // Create bot-compatible authorization format
-  const botAuth = {
-    address: request.authorization.contractAddress,
-    chainId: request.authorization.chainId,
-    nonce: Number(request.authorization.nonce),
-    r: request.authorization.r,
-    s: request.authorization.s,
-    yParity: Number(request.authorization.v) === 27 ? 0 : 1,
-  };
-  console.log(`\n      npm run bot register ${request.userAddress} '${JSON.stringify(botAuth)}'`);
+  console.log(`\n      npm run bot register ./${filename} --max-fee-bps 200`);
 
   console.log('\n   The relayer will submit your rescue transaction and you');
   console.log('   will receive your tokens minus the 1% fee!');
@@ -0,0 +1,49 @@
+/**
+ * CLI Output Helpers
+ *
+ * Plain-text tables for operators and JSON for scripts. JSON output is
+ * bigint-safe (bigints become decimal strings, like in rescue requests).
+ */
+
+// ============ Types ============
+
+export type TableRow = Record<string, string | number | boolean | undefined>;
+
+// ============ Helper Functions ============
+
+/**
+ * Serialize a value as pretty JSON, converting bigints to strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+/**
+ * Print rows as an aligned table; columns default to the first row's keys
+ */
+export function printTable(rows: TableRow[], columns: string[] = Object.keys(rows[0] ?? {})): void {
+  if (rows.length === 0) {
+    console.log('(none)');
+    return;
+  }
+
+  const cell = (value: TableRow[string]) => (value === undefined ? '-' : String(value));
+  const widths = columns.map((column) =>
+    Math.max(column.length, ...rows.map((row) => cell(row[column]).length))
+  );
+  const line = (values: string[]) =>
+    values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+
+  console.log(line(columns));
+  console.log(line(widths.map((width) => '-'.repeat(width))));
+  for (const row of rows) {
+    console.log(line(columns.map((column) => cell(row[column]))));
+  }
+}
+
+/**
+ * Format a millisecond timestamp for tables
+ */
+export function formatTimestamp(ms: number | undefined): string | undefined {
+  return ms === undefined ? undefined : new Date(ms).toISOString().replace('T', ' ').slice(0, 19);
+}
@@ -1,79 +1,57 @@
-import { defineChain } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
+import { isAddress, type LocalAccount } from 'viem';
 import dotenv from 'dotenv';
+import { getDeployment, toChain } from './deployments';
+import { loadSigner } from './signers';
 
 // Load environment variables
 dotenv.config();
 
 /**
- * BSC Testnet chain definition
+ * The network selected with --network / NETWORK (see deployments.ts)
  */
-export const bscTestnet = defineChain({
-  id: 97,
-  name: 'BSC Testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'Test BNB',
-    symbol: 'tBNB',
-  },
-  rpcUrls: {
-    default: {
-      http: [process.env.BSC_TESTNET_RPC || 'https://bsc-testnet-rpc.publicnode.com'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'BscScan Testnet',
-      url: 'https://testnet.bscscan.com',
-    },
-  },
-  testnet: true,
-});
+export const activeDeployment = getDeployment();
 
 /**
- * Get deployer account from private key
+ * viem chain definition of the active network
  */
-export function getDeployerAccount() {
-  const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
-  if (!privateKey) {
-    throw new Error('DEPLOYER_PRIVATE_KEY not set in environment');
-  }
-  return privateKeyToAccount(privateKey as `0x${string}`);
+export const activeChain = toChain(activeDeployment);
+
+/**
+ * Get deployer account (keystore, remote signer or private key; see signers.ts)
+ */
+export function getDeployerAccount(): Promise<LocalAccount> {
+  return loadSigner('DEPLOYER');
 }
 
 /**
- * Get relayer account from private key
+ * Get relayer account (keystore, remote signer or private key; see signers.ts)
  */
-export function getRelayerAccount() {
-  const privateKey = process.env.RELAYER_PRIVATE_KEY;
-  if (!privateKey) {
-    throw new Error('RELAYER_PRIVATE_KEY not set in environment');
-  }
-  return privateKeyToAccount(privateKey as `0x${string}`);
+export function getRelayerAccount(): Promise<LocalAccount> {
+  return loadSigner('RELAYER');
 }
 
 /**
- * Get user account from private key
+ * Get user account (keystore, remote signer or private key; see signers.ts)
  */
-export function getUserAccount() {
-  const privateKey = process.env.USER_PRIVATE_KEY;
-  if (!privateKey) {
-    throw new Error('USER_PRIVATE_KEY not set in environment');
-  }
-  return privateKeyToAccount(privateKey as `0x${string}`);
+export function getUserAccount(): Promise<LocalAccount> {
+  return loadSigner('USER');
 }
 
 /**
- * Get deployed contract addresses from environment
+ * Get deployed contract addresses for the active network
+ * ZERO_G_TOKEN_ADDRESS, STAKING_VAULT_ADDRESS, UNSTAKE_DELEGATE_ADDRESS and
+ * RESCUE_BATCHER_ADDRESS override the addresses in deployments.json
  */
 export function getContractAddresses() {
-  const tokenAddress = process.env.ZERO_G_TOKEN_ADDRESS;
-  const vaultAddress = process.env.STAKING_VAULT_ADDRESS;
-  const delegateAddress = process.env.UNSTAKE_DELEGATE_ADDRESS;
+  const registered = activeDeployment.contracts;
+  const tokenAddress = process.env.ZERO_G_TOKEN_ADDRESS || registered.token;
+  const vaultAddress = process.env.STAKING_VAULT_ADDRESS || registered.vault;
+  const delegateAddress = process.env.UNSTAKE_DELEGATE_ADDRESS || registered.delegate;
 
   if (!tokenAddress || !vaultAddress || !delegateAddress) {
     throw new Error(
-      'Contract addresses not set. Please deploy contracts first and update .env file.'
+      `Contract addresses not set for ${activeDeployment.network}. ` +
+        'Please deploy contracts first and add them to deployments.json or the .env file.'
     );
   }
 
@@ -81,9 +59,49 @@ export function getContractAddresses() {
     token: tokenAddress as `0x${string}`,
     vault: vaultAddress as `0x${string}`,
     delegate: delegateAddress as `0x${string}`,
+    // Optional: the bot only bundles several users per transaction when set
+    batcher: (process.env.RESCUE_BATCHER_ADDRESS || registered.batcher || undefined) as `0x${string}` | undefined,
   };
 }
 
+export interface SupportedVault {
+  address: `0x${string}`;
+  // The vault's staking token (what the relayer fee is paid in)
+  token: `0x${string}`;
+}
+
+/**
+ * StakingVaults the relayer and bot are allowed to rescue from
+ * SUPPORTED_VAULTS=0xVault:0xToken,0xVault:0xToken
+ * Defaults to the vault and token from getContractAddresses()
+ */
+export function getSupportedVaults(): SupportedVault[] {
+  const configured = process.env.SUPPORTED_VAULTS;
+  if (!configured) {
+    const contracts = getContractAddresses();
+    return [{ address: contracts.vault, token: contracts.token }];
+  }
+
+  return configured
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [address, token] = entry.split(':');
+      if (!isAddress(address ?? '', { strict: false }) || !isAddress(token ?? '', { strict: false })) {
+        throw new Error(`Invalid SUPPORTED_VAULTS entry "${entry}" (expected 0xVault:0xToken)`);
+      }
+      return { address: address as `0x${string}`, token: token as `0x${string}` };
+    });
+}
+
+/**
+ * Look up a vault in the allow-list (case-insensitive)
+ */
+export function findSupportedVault(address: string): SupportedVault | undefined {
+  return getSupportedVaults().find((vault) => vault.address.toLowerCase() === address.toLowerCase());
+}
+
 /**
  * Relayer fee configuration
  */
@@ -0,0 +1,296 @@
+/**
+ * Configuration Loader
+ *
+ * config.ts reads settings lazily; loadConfig() checks them up front so a
+ * typo'd address or a dead RPC fails at startup instead of deep inside a
+ * readContract. Every script calls it first. It checks:
+ * - environment variables against ENV_SCHEMA (numbers, URLs, enums, address
+ *   checksums, key formats)
+ * - the contract addresses registered in deployments.json
+ * - the signers the script needs (see signers.ts)
+ * - on chain: the RPC's chain id, code at every contract address and each
+ *   vault's stakingToken() (see checkDeployment in @zero-g/sdk)
+ *
+ * and fails with every problem listed. `npm run config doctor` prints them all.
+ */
+
+import * as fs from 'fs';
+import { createPublicClient, http, isAddress } from 'viem';
+import {
+  UnstakeDelegateABI,
+  assertConfigChecks,
+  checkAddress,
+  checkDeployment,
+  type ConfigCheck,
+  type DeploymentCheckParams,
+} from '@zero-g/sdk';
+import {
+  activeChain,
+  activeDeployment,
+  getContractAddresses,
+  getSupportedVaults,
+  RELAYER_FEE_BPS,
+  type SupportedVault,
+} from './config';
+import { endpointEnvVar, MEV_PROVIDERS } from './mevProtection';
+import { getSignerSource, type SignerRole } from './signers';
+
+// ============ Types ============
+
+export interface ConfigCheckOptions {
+  // Check the RPC and contracts on chain (default true)
+  onChain?: boolean;
+  // Signers the script needs; omitted, every role is reported but none required
+  signers?: SignerRole[];
+}
+
+export interface LoadedConfig {
+  network: string;
+  chainId: number;
+  contracts: ReturnType<typeof getContractAddresses>;
+  supportedVaults: SupportedVault[];
+  relayerFeeBps: number;
+}
+
+// ============ Schema ============
+
+// Returns what is wrong with a value, or undefined when it is valid
+type EnvRule = (value: string) => string | undefined;
+
+const integer =
+  (min: number, max?: number): EnvRule =>
+  (value) =>
+    /^-?\d+$/.test(value) && Number(value) >= min && (max === undefined || Number(value) <= max)
+      ? undefined
+      : max === undefined
+        ? `must be an integer of at least ${min}`
+        : `must be an integer from ${min} to ${max}`;
+
+const positiveNumber: EnvRule = (value) =>
+  /^\d+(\.\d+)?$/.test(value) && Number(value) > 0 ? undefined : 'must be a positive number';
+
+const url: EnvRule = (value) => {
+  try {
+    new URL(value);
+    return undefined;
+  } catch {
+    return `"${value}" is not a URL`;
+  }
+};
+
+const oneOf =
+  (...values: readonly string[]): EnvRule =>
+  (value) =>
+    values.includes(value) ? undefined : `must be one of: ${values.join(', ')}`;
+
+const listOf =
+  (rule: EnvRule): EnvRule =>
+  (value) =>
+    value
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map(rule)
+      .find(Boolean);
+
+const address: EnvRule = (value) => {
+  const check = checkAddress('', value);
+  return check.status === 'ok' ? undefined : check.message;
+};
+
+const privateKey: EnvRule = (value) =>
+  /^0x[0-9a-fA-F]{64}$/.test(value) ? undefined : 'must be a 0x-prefixed 32-byte hex key';
+
+const existingFile: EnvRule = (value) => (fs.existsSync(value) ? undefined : `file ${value} does not exist`);
+
+const vaultEntry: EnvRule = (entry) => {
+  const [vault, token] = entry.split(':');
+  if (!vault || !token) return `"${entry}" must be 0xVault:0xToken`;
+  return address(vault) ?? address(token);
+};
+
+const SIGNER_ROLES: SignerRole[] = ['DEPLOYER', 'RELAYER', 'USER', 'SIGNER_STUB'];
+
+/**
+ * Every setting the scripts read, with its format (unset or empty means the default)
+ */
+export const ENV_SCHEMA: Record<string, EnvRule> = {
+  // Contracts (override deployments.json)
+  ZERO_G_TOKEN_ADDRESS: address,
+  STAKING_VAULT_ADDRESS: address,
+  UNSTAKE_DELEGATE_ADDRESS: address,
+  RESCUE_BATCHER_ADDRESS: address,
+  SUPPORTED_VAULTS: listOf(vaultEntry),
+
+  // Fees and profitability
+  RELAYER_FEE_BPS: integer(0, 10000),
+  MIN_PROFIT_BPS: integer(0, 10000),
+  TOKEN_PRICE_BNB: positiveNumber,
+  PRICE_SOURCE: oneOf('fixed', 'http'),
+  PRICE_API_URL: url,
+
+  // Relayer and bot
+  RELAYER_PORT: integer(1, 65535),
+  SIGNER_STUB_PORT: integer(1, 65535),
+  BOT_STORE: oneOf('sqlite', 'json'),
+  BOT_MAX_BATCH_RESCUES: integer(1),
+  BOT_MAX_ATTEMPTS: integer(1),
+  BOT_RETRY_BASE_MS: integer(0),
+  BOT_RETRY_MAX_MS: integer(0),
+  BOT_STORE_KEY_FILE: existingFile,
+  REAUTH_WEBHOOK_URL: url,
+
+  // Transactions and MEV protection
+  TX_BUMP_AFTER_MS: integer(0),
+  TX_BUMP_BPS: integer(0, 10000),
+  TX_CANCEL_AFTER_MS: integer(0),
+  TX_TRACK_TIMEOUT_MS: integer(0),
+  TX_MAX_FEE_GWEI: positiveNumber,
+  MEV_PROTECTION: oneOf('true', 'false'),
+  MEV_FALLBACK_TO_PUBLIC: oneOf('true', 'false'),
+  MEV_PROVIDER: listOf(oneOf(...MEV_PROVIDERS)),
+  ...Object.fromEntries(MEV_PROVIDERS.map((provider) => [endpointEnvVar(provider), url])),
+
+  // Signers
+  ...Object.fromEntries(
+    SIGNER_ROLES.flatMap((role) => [
+      [`${role}_PRIVATE_KEY`, privateKey],
+      [`${role}_KEYSTORE`, existingFile],
+      [`${role}_KEYSTORE_PASSWORD_FILE`, existingFile],
+      [`${role}_SIGNER_URL`, url],
+      [`${role}_SIGNER_ADDRESS`, address],
+    ])
+  ),
+};
+
+// ============ Checks ============
+
+function checkEnvironment(): ConfigCheck[] {
+  const schema = { ...ENV_SCHEMA };
+  // The active network's RPC override, e.g. BSC_TESTNET_RPC
+  if (activeDeployment.rpcEnv) schema[activeDeployment.rpcEnv] = url;
+
+  const set = Object.keys(schema).filter((key) => process.env[key]);
+  const checks: ConfigCheck[] = set.flatMap((key) => {
+    const problem = schema[key](process.env[key]!);
+    return problem ? [{ name: key, status: 'error' as const, message: problem }] : [];
+  });
+  return checks.length ? checks : [{ name: 'environment', status: 'ok', message: `${set.length} settings valid` }];
+}
+
+function checkRegistry(): ConfigCheck[] {
+  return Object.entries(activeDeployment.contracts)
+    .filter(([, value]) => value)
+    .map(([name, value]) => checkAddress(`deployments.json ${activeDeployment.network}.${name}`, value!));
+}
+
+function checkSigners(required?: SignerRole[]): ConfigCheck[] {
+  return (required ?? (['DEPLOYER', 'RELAYER', 'USER'] as SignerRole[])).map((role): ConfigCheck => {
+    const name = `${role.toLowerCase()} signer`;
+    try {
+      const source = getSignerSource(role);
+      if (source) return { name, status: 'ok', message: source };
+      return {
+        name,
+        status: required ? 'error' : 'warning',
+        message: `not configured (set ${role}_KEYSTORE, ${role}_SIGNER_URL or ${role}_PRIVATE_KEY)`,
+      };
+    } catch (error: any) {
+      return { name, status: 'error', message: error.message };
+    }
+  });
+}
+
+/**
+ * The deployment to check on chain, or undefined when its addresses are
+ * missing or malformed (already reported)
+ */
+function resolveDeployment(checks: ConfigCheck[]): DeploymentCheckParams | undefined {
+  try {
+    const contracts = getContractAddresses();
+    const vaults = getSupportedVaults();
+    const addresses = [
+      ...Object.values(contracts).filter((value): value is `0x${string}` => Boolean(value)),
+      ...vaults.flatMap((vault) => [vault.address, vault.token]),
+    ];
+    if (!addresses.every((value) => isAddress(value))) return undefined;
+    return { chainId: activeChain.id, contracts, vaults };
+  } catch (error: any) {
+    checks.push({ name: 'contracts', status: 'error', message: error.message });
+    return undefined;
+  }
+}
+
+async function checkOnChain(deployment: DeploymentCheckParams): Promise<ConfigCheck[]> {
+  const client = createPublicClient({ chain: activeChain, transport: http() });
+
+  // Say which RPC failed and how to point at another one
+  const rpcHint = activeDeployment.rpcEnv
+    ? `${activeChain.rpcUrls.default.http[0]}; set ${activeDeployment.rpcEnv} to use another RPC`
+    : activeChain.rpcUrls.default.http[0];
+  const checks = (await checkDeployment(client, deployment)).map((check) =>
+    check.name === 'RPC' && check.status === 'error' ? { ...check, message: `${check.message} (${rpcHint})` } : check
+  );
+
+  // The fee the relayer expects should be what the delegate charges
+  const delegateDeployed = checks.some((check) => check.name === 'delegate code' && check.status === 'ok');
+  if (process.env.RELAYER_FEE_BPS && delegateDeployed) {
+    try {
+      const feeBps = await client.readContract({
+        address: deployment.contracts.delegate,
+        abi: UnstakeDelegateABI,
+        functionName: 'getRelayerFeeBps',
+      });
+      if (feeBps !== BigInt(RELAYER_FEE_BPS)) {
+        checks.push({
+          name: 'RELAYER_FEE_BPS',
+          status: 'warning',
+          message: `set to ${RELAYER_FEE_BPS}, but UnstakeDelegate charges ${feeBps} bps`,
+        });
+      }
+    } catch (error: any) {
+      // The fee comparison is advisory; don't fail startup over it
+      checks.push({
+        name: 'RELAYER_FEE_BPS',
+        status: 'warning',
+        message: `could not read getRelayerFeeBps() from ${deployment.contracts.delegate}: ${error?.shortMessage ?? error?.message}`,
+      });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Run every configuration check without throwing
+ */
+export async function runConfigChecks(options: ConfigCheckOptions = {}): Promise<ConfigCheck[]> {
+  const checks = [...checkEnvironment(), ...checkRegistry(), ...checkSigners(options.signers)];
+
+  const deployment = resolveDeployment(checks);
+  if (options.onChain !== false && deployment) {
+    checks.push(...(await checkOnChain(deployment)));
+  }
+  return checks;
+}
+
+/**
+ * Validate the configuration and return it
+ * Throws a ConfigError listing every problem; warnings are logged
+ */
+export async function loadConfig(options: ConfigCheckOptions = {}): Promise<LoadedConfig> {
+  const checks = await runConfigChecks(options);
+  assertConfigChecks(checks);
+
+  for (const check of checks.filter((check) => check.status === 'warning')) {
+    console.log(`⚠️  ${check.name}: ${check.message}`);
+  }
+
+  return {
+    network: activeDeployment.network,
+    chainId: activeChain.id,
+    contracts: getContractAddresses(),
+    supportedVaults: getSupportedVaults(),
+    relayerFeeBps: RELAYER_FEE_BPS,
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Deployments Registry
+ *
+ * Every network Zero-G Unstake knows about lives in deployments.json at the
+ * repository root: chain definition, RPC URLs, explorer, contract addresses
+ * and MEV endpoints. Scripts, the bot and the frontend all read it.
+ *
+ * The active network is picked with `--network <name>` or NETWORK=<name>
+ * (default: bsc-testnet). Environment variables still win over the registry
+ * for RPC URLs (the network's rpcEnv, e.g. BSC_TESTNET_RPC) and contract
+ * addresses (see getContractAddresses in config.ts).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { defineChain, isAddress, type Chain } from 'viem';
+import type { MevProvider } from './mevProtection';
+
+// ============ Types ============
+
+export interface DeploymentContracts {
+  token?: `0x${string}`;
+  vault?: `0x${string}`;
+  delegate?: `0x${string}`;
+  batcher?: `0x${string}`;
+}
+
+export interface Deployment {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  // Environment variable that overrides the first RPC URL
+  rpcEnv?: string;
+  explorer?: { name: string; url: string };
+  testnet?: boolean;
+  // Addresses of the contracts deployed on this network (empty until deployed)
+  contracts: DeploymentContracts;
+  mev?: {
+    // Private RPC endpoints, in order of preference
+    endpoints: Partial<Record<MevProvider, string>>;
+    // Public endpoint used when protection is off or as the fallback
+    public?: string;
+  };
+}
+
+export interface ActiveDeployment extends Deployment {
+  network: string;
+}
+
+// ============ Constants ============
+
+export const DEFAULT_NETWORK = 'bsc-testnet';
+
+// ============ Registry ============
+
+let registry: Record<string, Deployment> | undefined;
+
+// DEPLOYMENTS_FILE points at a different registry (e.g. a local devnet)
+function registryPath(): string {
+  return process.env.DEPLOYMENTS_FILE || path.resolve(__dirname, '../../deployments.json');
+}
+
+/**
+ * Every deployment in the registry, keyed by network name
+ */
+export function getDeployments(): Record<string, Deployment> {
+  if (!registry) {
+    const file = registryPath();
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf8')) as Record<string, Deployment>;
+    for (const [network, deployment] of Object.entries(parsed)) {
+      if (!Number.isSafeInteger(deployment.chainId) || !deployment.rpcUrls?.length) {
+        throw new Error(`Invalid deployment "${network}" in ${file} (needs chainId and rpcUrls)`);
+      }
+      for (const [name, address] of Object.entries(deployment.contracts ?? {})) {
+        if (address && !isAddress(address, { strict: false })) {
+          throw new Error(`Invalid ${name} address "${address}" for "${network}" in ${file}`);
+        }
+      }
+    }
+    registry = parsed;
+  }
+  return registry;
+}
+
+/**
+ * The network selected by `--network <name>` / `--network=<name>`, then
+ * NETWORK, then the default
+ */
+export function getNetworkName(argv: string[] = process.argv): string {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--network' && argv[i + 1]) return argv[i + 1];
+    if (argv[i].startsWith('--network=')) return argv[i].slice('--network='.length);
+  }
+  return process.env.NETWORK || DEFAULT_NETWORK;
+}
+
+/**
+ * Look up a deployment by network name (defaults to the active network)
+ */
+export function getDeployment(network: string = getNetworkName()): ActiveDeployment {
+  const deployments = getDeployments();
+  const deployment = deployments[network];
+  if (!deployment) {
+    throw new Error(
+      `Unknown network "${network}" (expected one of: ${Object.keys(deployments).join(', ')})`
+    );
+  }
+  return { network, ...deployment, contracts: deployment.contracts ?? {} };
+}
+
+/**
+ * Look up a deployment by chain ID
+ */
+export function findDeploymentByChainId(chainId: number): ActiveDeployment | undefined {
+  const entry = Object.entries(getDeployments()).find(([, deployment]) => deployment.chainId === chainId);
+  return entry ? getDeployment(entry[0]) : undefined;
+}
+
+/**
+ * The RPC URLs of a deployment, with its rpcEnv override first
+ */
+export function getRpcUrls(deployment: Deployment): string[] {
+  const override = deployment.rpcEnv ? process.env[deployment.rpcEnv] : undefined;
+  return override ? [override, ...deployment.rpcUrls] : deployment.rpcUrls;
+}
+
+/**
+ * viem chain definition for a deployment
+ */
+export function toChain(deployment: Deployment): Chain {
+  return defineChain({
+    id: deployment.chainId,
+    name: deployment.name,
+    nativeCurrency: deployment.nativeCurrency,
+    rpcUrls: {
+      default: {
+        http: getRpcUrls(deployment),
+      },
+    },
+    blockExplorers: deployment.explorer
+      ? {
+          default: deployment.explorer,
+        }
+      : undefined,
+    testnet: deployment.testnet,
+  });
+}
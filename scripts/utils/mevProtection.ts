@@ -2,128 +2,224 @@
  * MEV Protection Utilities
  * 
  * Provides MEV-safe transaction submission via private mempools:
- * - Flashbots Protect (Ethereum Mainnet)
- * - MEV Blocker (Multi-chain)
- * - Fallback to public mempool
+ * - Flashbots Protect and MEV Blocker (Ethereum Mainnet, Flashbots on Sepolia)
+ * - 48 Club, bloXroute BSC Protect and PancakeSwap MEV Guard (BSC Mainnet)
+ * - Fallback to the public mempool
  * 
- * On testnets, MEV protection is simulated (testnets don't have MEV issues)
+ * Each transaction is signed once and broadcast to every configured private
+ * endpoint in parallel; the first to accept it wins. Endpoints are ranked by
+ * their success rate and latency (see providerHealth.ts), and the public
+ * fallback applies to that one transaction only.
+ *
+ * Each network's private and public endpoints come from deployments.json;
+ * chains without a private endpoint (e.g. BSC Testnet) always send publicly.
+ * Endpoints can be overridden per provider with MEV_RPC_<PROVIDER>, and
+ * wasProtected reports whether the endpoint that accepted the transaction is
+ * actually private.
  */
 
 import {
   createWalletClient,
   createPublicClient,
   http,
+  keccak256,
   type Account,
   type Chain,
   type Hash,
-  type TransactionRequest,
+  type Hex,
+  type PublicClient,
 } from 'viem';
-import { bscTestnet } from './config';
+import {
+  getNonceManager,
+  withReservedNonce,
+  type NonceManager,
+  type TrackedTransactionRequest,
+  type TransactionSender,
+} from '@zero-g/sdk';
+import { activeChain } from './config';
+import { findDeploymentByChainId } from './deployments';
+import { getProviderHealth, type ProviderHealthSnapshot } from './providerHealth';
 
 // ============ Types ============
 
+export const MEV_PROVIDERS = [
+  'flashbots',
+  'mev-blocker',
+  '48club',
+  'bloxroute',
+  'pancakeswap',
+  'custom',
+  'public',
+] as const;
+
+export type MevProvider = (typeof MEV_PROVIDERS)[number];
+
 export interface MevProtectionConfig {
   enabled: boolean;
-  provider: 'flashbots' | 'mev-blocker' | 'public';
+  // Private providers to broadcast to (unset: every one the chain has)
+  providers?: MevProvider[];
   maxRetries: number;
   fallbackToPublic: boolean;
+  // Per-provider RPC URLs overriding the built-in ones for this chain
+  endpoints: Partial<Record<MevProvider, string>>;
 }
 
+export type ProtectedTransactionRequest = TrackedTransactionRequest;
+
 export interface ProtectedTransactionResult {
   hash: Hash;
-  provider: string;
+  // The signed request (nonce, gas and fees filled in), for replacements
+  request: ProtectedTransactionRequest;
+  // The provider whose endpoint accepted the transaction first
+  provider: MevProvider;
+  rpc: string;
   wasProtected: boolean;
 }
 
-// ============ RPC Endpoints ============
+export interface MevProtectionStatus {
+  enabled: boolean;
+  providers: MevProvider[];
+  rpc: string;
+  health: ProviderHealthSnapshot[];
+}
 
-/**
- * MEV Protection RPC endpoints by network
- * Note: Testnet endpoints are public since MEV isn't a concern there
- */
-const MEV_RPC_ENDPOINTS: Record<number, Record<string, string>> = {
-  // Ethereum Mainnet
-  1: {
-    flashbots: 'https://rpc.flashbots.net',
-    'mev-blocker': 'https://rpc.mevblocker.io',
-    public: 'https://eth.llamarpc.com',
-  },
-  // Sepolia Testnet (no real MEV protection, use public)
-  11155111: {
-    flashbots: 'https://ethereum-sepolia-rpc.publicnode.com', // Simulated
-    'mev-blocker': 'https://ethereum-sepolia-rpc.publicnode.com', // Simulated
-    public: 'https://ethereum-sepolia-rpc.publicnode.com',
-  },
-  // BSC Mainnet
-  56: {
-    flashbots: 'https://bsc-dataseed.binance.org', // No Flashbots on BSC
-    'mev-blocker': 'https://bsc-dataseed.binance.org',
-    public: 'https://bsc-dataseed.binance.org',
-  },
-  // BSC Testnet
-  97: {
-    flashbots: 'https://data-seed-prebsc-1-s1.binance.org:8545',
-    'mev-blocker': 'https://data-seed-prebsc-1-s1.binance.org:8545',
-    public: 'https://data-seed-prebsc-1-s1.binance.org:8545',
-  },
-};
+interface MevEndpoint {
+  provider: MevProvider;
+  url: string;
+  // Whether the endpoint keeps transactions out of the public mempool
+  private: boolean;
+}
 
 // ============ Default Config ============
 
+// MEV_RPC_<PROVIDER> overrides a provider's endpoint (e.g. MEV_RPC_MEV_BLOCKER)
+export function endpointEnvVar(provider: MevProvider): string {
+  return `MEV_RPC_${provider.replace('-', '_').toUpperCase()}`;
+}
+
 const DEFAULT_CONFIG: MevProtectionConfig = {
   enabled: true,
-  provider: 'mev-blocker',
   maxRetries: 3,
   fallbackToPublic: true,
+  endpoints: {},
 };
 
+// Node errors meaning another endpoint already delivered the transaction
+const ALREADY_KNOWN_PATTERN = /already known|known transaction|already imported/i;
+
+/**
+ * MEV protection settings from the environment:
+ * MEV_PROTECTION=false, MEV_PROVIDER=<provider>[,<provider>...],
+ * MEV_FALLBACK_TO_PUBLIC=false, and MEV_RPC_<PROVIDER>=<url>
+ * (e.g. MEV_RPC_48CLUB, MEV_RPC_CUSTOM)
+ */
+export function getMevProtectionConfigFromEnv(): Partial<MevProtectionConfig> {
+  const providers = process.env.MEV_PROVIDER?.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  for (const provider of providers ?? []) {
+    if (!MEV_PROVIDERS.includes(provider as MevProvider)) {
+      throw new Error(`Invalid MEV_PROVIDER "${provider}" (expected one of: ${MEV_PROVIDERS.join(', ')})`);
+    }
+  }
+
+  const endpoints: Partial<Record<MevProvider, string>> = {};
+  for (const name of MEV_PROVIDERS) {
+    const url = process.env[endpointEnvVar(name)];
+    if (url) endpoints[name] = url;
+  }
+
+  return {
+    enabled: process.env.MEV_PROTECTION !== 'false', // Enabled by default
+    providers: providers?.length ? (providers as MevProvider[]) : undefined,
+    fallbackToPublic: process.env.MEV_FALLBACK_TO_PUBLIC !== 'false',
+    endpoints,
+  };
+}
+
 // ============ MEV Protection Class ============
 
 export class MevProtectedRelayer {
   private config: MevProtectionConfig;
   private chain: Chain;
-  private account: Account;
+  // Public node the shared nonce manager syncs from
+  private client: PublicClient;
+  readonly account: Account;
 
   constructor(
     account: Account,
-    chain: Chain = bscTestnet,
-    config: Partial<MevProtectionConfig> = {}
+    chain: Chain = activeChain,
+    config: Partial<MevProtectionConfig> = {},
+    client?: PublicClient
   ) {
     this.account = account;
     this.chain = chain;
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.client = client ?? createPublicClient({ chain, transport: http(this.getPublicEndpoint().url) });
   }
 
   /**
-   * Get the appropriate RPC URL based on protection settings
+   * The public endpoint used when protection is off or as the fallback
    */
-  private getRpcUrl(): string {
-    const chainId = this.chain.id;
-    const endpoints = MEV_RPC_ENDPOINTS[chainId];
+  private getPublicEndpoint(): MevEndpoint {
+    return {
+      provider: 'public',
+      url:
+        this.config.endpoints.public ??
+        findDeploymentByChainId(this.chain.id)?.mev?.public ??
+        this.chain.rpcUrls.default.http[0],
+      private: false,
+    };
+  }
 
-    if (!endpoints) {
-      console.warn(`⚠️ No MEV endpoints configured for chain ${chainId}, using default`);
-      return this.chain.rpcUrls.default.http[0];
-    }
+  /**
+   * The private endpoints for the configured providers that this chain has
+   */
+  private getPrivateEndpoints(): MevEndpoint[] {
+    const available = { ...findDeploymentByChainId(this.chain.id)?.mev?.endpoints, ...this.config.endpoints };
+    delete available.public;
 
-    if (!this.config.enabled) {
-      return endpoints.public;
-    }
+    const providers = this.config.providers ?? (Object.keys(available) as MevProvider[]);
+    return providers
+      .filter((provider) => provider !== 'public')
+      .flatMap((provider) => {
+        const url = available[provider];
+        if (!url) {
+          console.warn(`⚠️ No ${provider} endpoint for chain ${this.chain.id}; set ${endpointEnvVar(provider)}`);
+          return [];
+        }
+        return [{ provider, url, private: true }];
+      });
+  }
 
-    return endpoints[this.config.provider] || endpoints.public;
+  /**
+   * Endpoint tiers to try in order: the private endpoints (broadcast to
+   * together), then public when allowed
+   */
+  private getEndpointTiers(): MevEndpoint[][] {
+    if (!this.config.enabled) return [[this.getPublicEndpoint()]];
+
+    const privateEndpoints = this.getPrivateEndpoints();
+    if (privateEndpoints.length === 0) {
+      if (!this.config.fallbackToPublic) {
+        throw new Error(`No private RPC endpoint for chain ${this.chain.id} and fallbackToPublic is off`);
+      }
+      return [[this.getPublicEndpoint()]];
+    }
+    return this.config.fallbackToPublic
+      ? [privateEndpoints, [this.getPublicEndpoint()]]
+      : [privateEndpoints];
   }
 
   /**
-   * Create a wallet client with MEV protection
+   * Get the RPC URL transactions are sent to first
    */
-  private createProtectedClient() {
-    const rpcUrl = this.getRpcUrl();
-    
-    return createWalletClient({
-      account: this.account,
-      chain: this.chain,
-      transport: http(rpcUrl),
-    });
+  private getRpcUrl(): string {
+    return this.health().rank(this.getEndpointTiers()[0])[0].url;
+  }
+
+  private health() {
+    return getProviderHealth(this.chain.id);
   }
 
   /**
@@ -140,73 +236,149 @@ export class MevProtectedRelayer {
    * Send a transaction with MEV protection
    */
   async sendProtectedTransaction(
-    tx: TransactionRequest & { authorizationList?: any[] }
+    tx: ProtectedTransactionRequest
   ): Promise<ProtectedTransactionResult> {
-    const client = this.createProtectedClient();
-    const provider = this.config.enabled ? this.config.provider : 'public';
+    // Reserve the nonce through the shared manager unless the caller fixed one,
+    // so concurrent rescues from the same relayer don't collide
+    if (tx.nonce === undefined) {
+      return withReservedNonce(this.nonceManager(), (nonce) =>
+        this.sendProtectedTransaction({ ...tx, nonce })
+      );
+    }
+
+    const tiers = this.getEndpointTiers();
+    console.log(`\n🛡️  MEV Protection: ${tiers[0][0].private ? 'ENABLED' : 'DISABLED (public mempool)'}`);
+
+    // Signed once, so every endpoint (and the fallback) carries the same hash
+    const { request, serializedTransaction } = await this.signTransaction(tx);
+    const hash = keccak256(serializedTransaction);
+
+    let lastError: unknown = null;
+
+    for (const [index, tier] of tiers.entries()) {
+      if (index > 0) {
+        console.log('   🔄 Falling back to public mempool for this transaction...');
+      }
+
+      for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+        try {
+          console.log(`   Attempt ${attempt}/${this.config.maxRetries}...`);
+          const endpoint = await this.broadcast(tier, serializedTransaction);
+
+          console.log(`   ✅ Transaction submitted: ${hash} (accepted by ${endpoint.provider})`);
 
-    console.log(`\n🛡️  MEV Protection: ${this.config.enabled ? 'ENABLED' : 'DISABLED'}`);
-    if (this.config.enabled) {
-      console.log(`   Provider: ${provider}`);
-      console.log(`   RPC: ${this.getRpcUrl()}`);
+          // The public node's pending count won't include it; keep the nonce
+          // (and, for replacements, keep holding it) until it is mined
+          if (endpoint.private) this.nonceManager().markPrivate(tx.nonce);
+
+          return {
+            hash,
+            request,
+            provider: endpoint.provider,
+            rpc: endpoint.url,
+            wasProtected: endpoint.private,
+          };
+        } catch (error: any) {
+          lastError = error;
+          console.error(`   ❌ Attempt ${attempt} failed:`, error.message);
+        }
+      }
     }
 
-    let lastError: Error | null = null;
+    throw lastError || new Error('Transaction failed after all retries');
+  }
+
+  private nonceManager(): NonceManager {
+    return getNonceManager(this.client, this.account.address);
+  }
 
-    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
-      try {
-        console.log(`   Attempt ${attempt}/${this.config.maxRetries}...`);
+  /**
+   * Fill in and sign the transaction without sending it
+   */
+  private async signTransaction(
+    tx: ProtectedTransactionRequest
+  ): Promise<{ request: ProtectedTransactionRequest; serializedTransaction: Hex }> {
+    const client = createWalletClient({
+      account: this.account,
+      chain: this.chain,
+      transport: http(this.getPublicEndpoint().url),
+    });
+    const request = await client.prepareTransactionRequest({
+      ...tx,
+      account: this.account,
+      chain: this.chain,
+    });
+    const serializedTransaction = await client.signTransaction(request);
+    // Preparing widens authorizationList to unsigned entries; tx only carries signed ones
+    return { request: request as ProtectedTransactionRequest, serializedTransaction };
+  }
 
-        const hash = await client.sendTransaction({
-          ...tx,
-          account: this.account,
-          chain: this.chain,
-        } as any);
+  /**
+   * Send a signed transaction to every healthy endpoint of a tier at once
+   * Resolves with the first endpoint to accept it; rejects if none do
+   */
+  private async broadcast(endpoints: MevEndpoint[], serializedTransaction: Hex): Promise<MevEndpoint> {
+    const health = this.health();
+    const ranked = health.rank(endpoints);
+    const healthy = ranked.filter((endpoint) => health.isHealthy(endpoint.provider));
+    const targets = healthy.length > 0 ? healthy : ranked;
 
-        console.log(`   ✅ Transaction submitted: ${hash}`);
+    for (const endpoint of targets) {
+      console.log(`   📡 ${endpoint.provider}: ${endpoint.url}`);
+    }
 
-        return {
-          hash,
-          provider,
-          wasProtected: this.config.enabled && provider !== 'public',
-        };
+    const sends = targets.map(async (endpoint) => {
+      const client = createWalletClient({ chain: this.chain, transport: http(endpoint.url) });
+      const startedAt = Date.now();
+      try {
+        await client.sendRawTransaction({ serializedTransaction });
       } catch (error: any) {
-        lastError = error;
-        console.error(`   ❌ Attempt ${attempt} failed:`, error.message);
-
-        // If this was a protected attempt and fallback is enabled, try public
-        if (
-          this.config.enabled &&
-          this.config.fallbackToPublic &&
-          attempt === this.config.maxRetries
-        ) {
-          console.log('   🔄 Falling back to public mempool...');
-          this.config.enabled = false;
-          return this.sendProtectedTransaction(tx);
+        if (!ALREADY_KNOWN_PATTERN.test(`${error?.details ?? ''} ${error?.message ?? ''}`)) {
+          health.recordFailure(endpoint.provider, error);
+          console.warn(`   ⚠️ ${endpoint.provider} rejected the transaction:`, error.shortMessage ?? error.message);
+          throw error;
         }
       }
+      health.recordSuccess(endpoint.provider, Date.now() - startedAt);
+      return endpoint;
+    });
+
+    try {
+      return await Promise.any(sends);
+    } catch (error) {
+      // Every endpoint rejected; surface the first reason
+      throw (error as AggregateError).errors[0];
     }
+  }
 
-    throw lastError || new Error('Transaction failed after all retries');
+  /**
+   * This relayer as the sender of a TransactionTracker's replacements
+   */
+  asTransactionSender(): TransactionSender {
+    return {
+      address: this.account.address,
+      send: async (request) => (await this.sendProtectedTransaction(request)).hash,
+    };
   }
 
   /**
    * Get current protection status
    */
-  getStatus(): { enabled: boolean; provider: string; rpc: string } {
+  getStatus(): MevProtectionStatus {
+    const [tier] = this.getEndpointTiers();
     return {
-      enabled: this.config.enabled,
-      provider: this.config.provider,
+      enabled: tier[0].private,
+      providers: tier.map((endpoint) => endpoint.provider),
       rpc: this.getRpcUrl(),
+      health: this.health().snapshot(),
     };
   }
 
   /**
-   * Check if the network supports real MEV protection
+   * Check if the network has a private endpoint for the configured providers
    */
   supportsRealMevProtection(): boolean {
-    // Only Ethereum mainnet has real MEV protection infrastructure
-    return this.chain.id === 1;
+    return this.getPrivateEndpoints().length > 0;
   }
 }
 
@@ -217,10 +389,11 @@ export class MevProtectedRelayer {
  */
 export function createMevProtectedRelayer(
   account: Account,
-  chain: Chain = bscTestnet,
-  options?: Partial<MevProtectionConfig>
+  chain: Chain = activeChain,
+  options?: Partial<MevProtectionConfig>,
+  client?: PublicClient
 ): MevProtectedRelayer {
-  return new MevProtectedRelayer(account, chain, options);
+  return new MevProtectedRelayer(account, chain, options, client);
 }
 
 /**
@@ -229,7 +402,7 @@ export function createMevProtectedRelayer(
 export async function sendMevProtectedTransaction(
   account: Account,
   chain: Chain,
-  tx: TransactionRequest & { authorizationList?: any[] },
+  tx: ProtectedTransactionRequest,
   options?: Partial<MevProtectionConfig>
 ): Promise<ProtectedTransactionResult> {
   const relayer = createMevProtectedRelayer(account, chain, options);
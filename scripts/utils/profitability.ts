@@ -0,0 +1,172 @@
+/**
+ * Rescue Profitability
+ *
+ * Decides whether a rescue is worth sending: the relayer is paid in staking
+ * tokens but pays gas in BNB, so dust stakes can cost more than they earn.
+ * - Token fee (from estimateRescue) is converted to BNB via a PriceSource
+ * - Gas cost is the simulated gas times the current gas price
+ * - Profit margin is expressed in bps of the gas cost and compared against
+ *   the configured minimum (BotConfig.minProfitBps / MIN_PROFIT_BPS)
+ * - Batch rescues add up the value of every vault's fee against the gas of
+ *   the single batched transaction
+ */
+
+import { parseEther, type Address, type PublicClient } from 'viem';
+
+// ============ Types ============
+
+/**
+ * Pluggable price oracle for staking tokens
+ */
+export interface PriceSource {
+  name: string;
+  /** Price of one whole token, in wei of the native currency */
+  getTokenPriceInNative(token: Address): Promise<bigint>;
+}
+
+export type ProfitDecision = 'execute' | 'defer' | 'skip';
+
+export interface ProfitEstimate {
+  decision: ProfitDecision;
+  reason: string;
+  feeTokens: bigint;
+  feeValueWei: bigint;
+  gasCostWei: bigint;
+  profitWei: bigint;
+  // Profit as bps of the gas cost (null when gas is free)
+  profitBps: number | null;
+}
+
+export interface ProfitParams {
+  token: Address;
+  tokenDecimals?: number;
+  feeTokens: bigint;
+  gas: bigint;
+  minProfitBps: number;
+  priceSource: PriceSource;
+  gasPrice?: bigint;
+}
+
+export interface BatchProfitParams extends Omit<ProfitParams, 'token' | 'tokenDecimals' | 'feeTokens'> {
+  fees: { token: Address; feeTokens: bigint; tokenDecimals?: number }[];
+}
+
+// ============ Constants ============
+
+/** Default minimum profit margin: 0.5% over gas cost */
+export const DEFAULT_MIN_PROFIT_BPS = 50;
+
+// Fees worth less than this share of the gas cost are dust: waiting for a
+// cheaper block won't make them profitable, so they are skipped outright
+const DUST_COVERAGE_BPS = 1000n; // 10%
+
+// ============ Price Sources ============
+
+/**
+ * Static price, e.g. from configuration or for testnets
+ */
+export class FixedPriceSource implements PriceSource {
+  readonly name = 'fixed';
+
+  constructor(private priceWei: bigint) {}
+
+  async getTokenPriceInNative(): Promise<bigint> {
+    return this.priceWei;
+  }
+}
+
+/**
+ * Price from an HTTP endpoint returning JSON like { "price": "0.0012" }
+ * `{token}` in the URL is replaced by the token address
+ */
+export class HttpPriceSource implements PriceSource {
+  readonly name = 'http';
+
+  constructor(private urlTemplate: string, private field: string = 'price') {}
+
+  async getTokenPriceInNative(token: Address): Promise<bigint> {
+    const response = await fetch(this.urlTemplate.replace('{token}', token));
+    if (!response.ok) {
+      throw new Error(`Price API returned ${response.status}`);
+    }
+    const body = (await response.json()) as Record<string, unknown>;
+    const price = body[this.field];
+    if (price === undefined) {
+      throw new Error(`Price API response has no "${this.field}" field`);
+    }
+    return parseEther(String(price));
+  }
+}
+
+/**
+ * Build the price source configured in the environment
+ * - PRICE_SOURCE=fixed (default): TOKEN_PRICE_BNB, whole BNB per token
+ * - PRICE_SOURCE=http: PRICE_API_URL, PRICE_API_FIELD
+ * Returns undefined when no price is configured (profit can't be computed)
+ */
+export function createPriceSourceFromEnv(): PriceSource | undefined {
+  if (process.env.PRICE_SOURCE === 'http') {
+    if (!process.env.PRICE_API_URL) {
+      throw new Error('PRICE_API_URL must be set when PRICE_SOURCE=http');
+    }
+    return new HttpPriceSource(process.env.PRICE_API_URL, process.env.PRICE_API_FIELD);
+  }
+  if (!process.env.TOKEN_PRICE_BNB) {
+    return undefined;
+  }
+  return new FixedPriceSource(parseEther(process.env.TOKEN_PRICE_BNB));
+}
+
+// ============ Evaluation ============
+
+/**
+ * Estimate the relayer's profit for a rescue and decide whether to send it
+ */
+export async function evaluateProfitability(
+  client: PublicClient,
+  params: ProfitParams
+): Promise<ProfitEstimate> {
+  return evaluateBatchProfitability(client, {
+    ...params,
+    fees: [{ token: params.token, feeTokens: params.feeTokens, tokenDecimals: params.tokenDecimals }],
+  });
+}
+
+/**
+ * Same as evaluateProfitability for a batch rescue paying fees in several
+ * vaults' tokens; feeTokens in the result is the raw sum across tokens
+ */
+export async function evaluateBatchProfitability(
+  client: PublicClient,
+  params: BatchProfitParams
+): Promise<ProfitEstimate> {
+  const [gasPrice, ...tokenPrices] = await Promise.all([
+    params.gasPrice ?? client.getGasPrice(),
+    ...params.fees.map((fee) => params.priceSource.getTokenPriceInNative(fee.token)),
+  ]);
+
+  const feeValueWei = params.fees.reduce(
+    (total, fee, i) => total + (fee.feeTokens * tokenPrices[i]) / 10n ** BigInt(fee.tokenDecimals ?? 18),
+    0n
+  );
+  const feeTokens = params.fees.reduce((total, fee) => total + fee.feeTokens, 0n);
+  const gasCostWei = params.gas * gasPrice;
+  const profitWei = feeValueWei - gasCostWei;
+  const profitBps = gasCostWei > 0n ? Number((profitWei * 10000n) / gasCostWei) : null;
+
+  const estimate = { feeTokens, feeValueWei, gasCostWei, profitWei, profitBps };
+
+  if (profitBps === null || profitBps >= params.minProfitBps) {
+    return { ...estimate, decision: 'execute', reason: 'Profitable' };
+  }
+
+  const margin = `${(profitBps / 100).toFixed(2)}% margin, need ${(params.minProfitBps / 100).toFixed(2)}%`;
+  if (feeValueWei * 10000n < gasCostWei * DUST_COVERAGE_BPS) {
+    return {
+      ...estimate,
+      decision: 'skip',
+      reason: `Dust stake: fee covers under ${Number(DUST_COVERAGE_BPS) / 100}% of gas (${margin})`,
+    };
+  }
+  return { ...estimate, decision: 'defer', reason: `Below profit threshold (${margin})` };
+}
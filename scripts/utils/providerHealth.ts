@@ -0,0 +1,144 @@
+/**
+ * RPC Provider Health
+ *
+ * Tracks how each broadcast endpoint behaves so MevProtectedRelayer can
+ * order providers by reliability and skip ones that keep failing:
+ * - Success rate (smoothed, so one early failure doesn't sink a provider)
+ * - Moving average of how long the endpoint took to accept a transaction
+ * - A short cooldown after several consecutive failures
+ */
+
+import { BaseError } from 'viem';
+
+// ============ Types ============
+
+export interface ProviderHealthSnapshot {
+  provider: string;
+  successes: number;
+  failures: number;
+  // Exponential moving average of accept latency
+  avgLatencyMs?: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  // 0..1, higher is better
+  score: number;
+  healthy: boolean;
+}
+
+interface ProviderStats {
+  successes: number;
+  failures: number;
+  avgLatencyMs?: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+}
+
+// ============ Constants ============
+
+// Weight of the newest sample in the latency average
+const LATENCY_ALPHA = 0.3;
+
+// Latency at which a provider's score is halved
+const LATENCY_HALF_SCORE_MS = 1000;
+
+// Providers failing this many times in a row sit out the cooldown
+const MAX_CONSECUTIVE_FAILURES = 3;
+const UNHEALTHY_COOLDOWN_MS = 60_000;
+
+// ============ Tracker ============
+
+export class ProviderHealthTracker {
+  private stats: Map<string, ProviderStats> = new Map();
+
+  private get(provider: string): ProviderStats {
+    let stats = this.stats.get(provider);
+    if (!stats) {
+      stats = { successes: 0, failures: 0, consecutiveFailures: 0 };
+      this.stats.set(provider, stats);
+    }
+    return stats;
+  }
+
+  recordSuccess(provider: string, latencyMs: number): void {
+    const stats = this.get(provider);
+    stats.successes++;
+    stats.consecutiveFailures = 0;
+    stats.avgLatencyMs =
+      stats.avgLatencyMs === undefined
+        ? latencyMs
+        : LATENCY_ALPHA * latencyMs + (1 - LATENCY_ALPHA) * stats.avgLatencyMs;
+  }
+
+  recordFailure(provider: string, error: unknown): void {
+    const stats = this.get(provider);
+    stats.failures++;
+    stats.consecutiveFailures++;
+    stats.lastError =
+      error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+    stats.lastFailureAt = Date.now();
+  }
+
+  /**
+   * Success rate discounted by latency; unknown providers score 0.5
+   */
+  score(provider: string): number {
+    const stats = this.get(provider);
+    const successRate = (stats.successes + 1) / (stats.successes + stats.failures + 2);
+    const latency = stats.avgLatencyMs ?? 0;
+    return successRate * (LATENCY_HALF_SCORE_MS / (LATENCY_HALF_SCORE_MS + latency));
+  }
+
+  /**
+   * False while a provider is cooling down after repeated failures
+   */
+  isHealthy(provider: string, now: number = Date.now()): boolean {
+    const stats = this.get(provider);
+    return (
+      stats.consecutiveFailures < MAX_CONSECUTIVE_FAILURES ||
+      now - (stats.lastFailureAt ?? 0) >= UNHEALTHY_COOLDOWN_MS
+    );
+  }
+
+  /**
+   * Healthy providers first, each group best score first (stable otherwise)
+   * Unhealthy providers are kept at the end rather than dropped, so a send
+   * still has somewhere to go when every provider is cooling down
+   */
+  rank<T extends { provider: string }>(endpoints: T[]): T[] {
+    const now = Date.now();
+    return endpoints
+      .map((endpoint, index) => ({
+        endpoint,
+        index,
+        healthy: this.isHealthy(endpoint.provider, now),
+        score: this.score(endpoint.provider),
+      }))
+      .sort((a, b) => Number(b.healthy) - Number(a.healthy) || b.score - a.score || a.index - b.index)
+      .map(({ endpoint }) => endpoint);
+  }
+
+  snapshot(): ProviderHealthSnapshot[] {
+    return Array.from(this.stats.entries()).map(([provider, stats]) => ({
+      provider,
+      ...stats,
+      score: this.score(provider),
+      healthy: this.isHealthy(provider),
+    }));
+  }
+}
+
+const trackers: Map<number, ProviderHealthTracker> = new Map();
+
+/**
+ * Get the process-wide health tracker for a chain
+ */
+export function getProviderHealth(chainId: number): ProviderHealthTracker {
+  let tracker = trackers.get(chainId);
+  if (!tracker) {
+    tracker = new ProviderHealthTracker();
+    trackers.set(chainId, tracker);
+  }
+  return tracker;
+}
@@ -0,0 +1,54 @@
+/**
+ * Reauthorization Requests
+ *
+ * EIP-7702 authorizations are bound to the account nonce, so any transaction
+ * the user sends after registering invalidates the one the bot holds. When
+ * that happens the bot expires the registration and asks the user to re-sign
+ * through a ReauthorizationHook (e.g. a webhook that emails or notifies them).
+ */
+
+import type { Address } from 'viem';
+
+// ============ Types ============
+
+export interface ReauthorizationRequest {
+  userAddress: Address;
+  // Delegate and chain the new authorization must be signed for
+  delegate: Address;
+  chainId: number;
+  reason: string;
+  expiredAt: number;
+}
+
+export type ReauthorizationHook = (request: ReauthorizationRequest) => Promise<void> | void;
+
+// ============ Hooks ============
+
+/**
+ * POST each request as JSON to a webhook URL
+ */
+export function createWebhookReauthorizationHook(url: string): ReauthorizationHook {
+  return async (request) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw new Error(`Reauthorization webhook returned ${response.status}`);
+    }
+  };
+}
+
+/**
+ * Build the hook configured in the environment (REAUTH_WEBHOOK_URL)
+ * Falls back to logging the request
+ */
+export function createReauthorizationHookFromEnv(): ReauthorizationHook {
+  if (process.env.REAUTH_WEBHOOK_URL) {
+    return createWebhookReauthorizationHook(process.env.REAUTH_WEBHOOK_URL);
+  }
+  return (request) => {
+    console.log(`   ✍️  ${request.userAddress} must re-sign an authorization for ${request.delegate}`);
+  };
+}
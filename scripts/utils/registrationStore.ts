@@ -0,0 +1,726 @@
+/**
+ * Registration Storage
+ *
+ * Persistence for the auto-unstake bot's registered users and their rescue
+ * attempt history, behind a small synchronous interface. Registrations are
+ * keyed by (user, vault), so one user can be registered for several vaults:
+ * - SqliteRegistrationStore (default): atomic per-row updates, safe to share
+ *   between the running bot and CLI commands in other processes
+ * - JsonRegistrationStore: single-file storage written atomically via rename,
+ *   for setups without native modules
+ *
+ * The SQLite store imports an existing registrations.json on first open.
+ * When a StoreCipher is configured, authorizations are encrypted at rest and
+ * decrypted transparently on load (see storeEncryption.ts). Processes that
+ * need the store to themselves (the running bot, key rotation) hold a pid
+ * lock file in the data directory (see lockRegistrationStore).
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AuthorizationTuple } from '@zero-g/sdk';
+import { StoreCipher, StoreDecryptionError, createStoreCipherFromEnv } from './storeEncryption';
+
+// ============ Types ============
+
+/**
+ * - pending: waiting for the stake to unlock
+ * - rescued: rescue transaction confirmed
+ * - expired: authorization can no longer be used; the user must re-sign
+ * - dead-letter: rescue failed too many times; waits for an operator requeue
+ */
+export const REGISTRATION_STATUSES = ['pending', 'rescued', 'expired', 'dead-letter'] as const;
+export type RegistrationStatus = (typeof REGISTRATION_STATUSES)[number];
+
+export interface RegisteredUser {
+  userAddress: `0x${string}`;
+  vaultAddress: `0x${string}`;
+  authorization: AuthorizationTuple;
+  maxFeeBps: number;
+  registeredAt: number;
+  lastChecked?: number;
+  status: RegistrationStatus;
+  // Why the registration left the pending state (e.g. expiry reason)
+  statusReason?: string;
+  rescueTxHash?: string;
+  // Consecutive failed rescues, reset on requeue
+  failedAttempts?: number;
+  // Earliest time (ms) to retry after a failure
+  nextAttemptAt?: number;
+  // Last decoded failure reason
+  lastError?: string;
+}
+
+export interface RescueAttempt {
+  userAddress: `0x${string}`;
+  // Missing on attempts recorded before multi-vault support
+  vaultAddress?: `0x${string}`;
+  attemptedAt: number;
+  success: boolean;
+  txHash?: string;
+  // Earlier versions of txHash, replaced while stuck (speed-ups, cancellation)
+  replacedTxHashes?: string[];
+  error?: string;
+}
+
+export interface RegistrationStore {
+  readonly kind: StoreKind;
+  readonly encrypted: boolean;
+  get(userAddress: string, vaultAddress: string): RegisteredUser | undefined;
+  // Every registration of a user, across vaults
+  getForUser(userAddress: string): RegisteredUser[];
+  getAll(): RegisteredUser[];
+  getPending(): RegisteredUser[];
+  getByStatus(status: RegistrationStatus): RegisteredUser[];
+  save(user: RegisteredUser): void;
+  delete(userAddress: string, vaultAddress: string): void;
+  recordAttempt(attempt: RescueAttempt): void;
+  getAttempts(userAddress: string, vaultAddress?: string): RescueAttempt[];
+  // Re-encrypt every stored authorization with a new cipher (undefined = plaintext)
+  rekey(cipher: StoreCipher | undefined): number;
+  close(): void;
+}
+
+export type StoreKind = 'sqlite' | 'json';
+
+export interface RegistrationStoreOptions {
+  kind?: StoreKind;
+  cipher?: StoreCipher;
+  // Vault assigned to registrations stored before they had one
+  legacyVault?: `0x${string}`;
+}
+
+interface MigrationContext {
+  legacyVault?: `0x${string}`;
+}
+
+type Migration = string | ((db: Database.Database, context: MigrationContext) => void);
+
+// ============ Constants ============
+
+const JSON_FILE = 'registrations.json';
+const JSON_ATTEMPTS_FILE = 'rescue-attempts.jsonl';
+const SQLITE_FILE = 'registrations.db';
+const LOCK_FILE = 'store.lock';
+
+// Bump and add a step to SQLITE_MIGRATIONS when the schema changes
+const SQLITE_MIGRATIONS: Migration[] = [
+  `CREATE TABLE registrations (
+     user_address TEXT PRIMARY KEY COLLATE NOCASE,
+     authorization TEXT NOT NULL,
+     max_fee_bps INTEGER NOT NULL,
+     registered_at INTEGER NOT NULL,
+     last_checked INTEGER,
+     rescued INTEGER NOT NULL DEFAULT 0,
+     rescue_tx_hash TEXT
+   );
+   CREATE INDEX idx_registrations_rescued ON registrations (rescued);
+   CREATE TABLE rescue_attempts (
+     id INTEGER PRIMARY KEY AUTOINCREMENT,
+     user_address TEXT NOT NULL COLLATE NOCASE,
+     attempted_at INTEGER NOT NULL,
+     success INTEGER NOT NULL,
+     tx_hash TEXT,
+     error TEXT
+   );
+   CREATE INDEX idx_rescue_attempts_user ON rescue_attempts (user_address, attempted_at);`,
+  `ALTER TABLE registrations ADD COLUMN status TEXT NOT NULL DEFAULT 'pending';
+   ALTER TABLE registrations ADD COLUMN status_reason TEXT;
+   UPDATE registrations SET status = 'rescued' WHERE rescued = 1;
+   DROP INDEX idx_registrations_rescued;
+   ALTER TABLE registrations DROP COLUMN rescued;
+   CREATE INDEX idx_registrations_status ON registrations (status);`,
+  `ALTER TABLE registrations ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0;
+   ALTER TABLE registrations ADD COLUMN next_attempt_at INTEGER;
+   ALTER TABLE registrations ADD COLUMN last_error TEXT;`,
+  // SQLite can't change a primary key in place, so rebuild the table keyed by (user, vault)
+  (db, { legacyVault }) => {
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM registrations').get() as { count: number };
+    if (count > 0 && !legacyVault) {
+      throw new Error('Existing registrations need a vault; open the store with legacyVault set');
+    }
+    db.exec(
+      `CREATE TABLE registrations_v4 (
+         user_address TEXT NOT NULL COLLATE NOCASE,
+         vault_address TEXT NOT NULL COLLATE NOCASE,
+         authorization TEXT NOT NULL,
+         max_fee_bps INTEGER NOT NULL,
+         registered_at INTEGER NOT NULL,
+         last_checked INTEGER,
+         status TEXT NOT NULL DEFAULT 'pending',
+         status_reason TEXT,
+         rescue_tx_hash TEXT,
+         failed_attempts INTEGER NOT NULL DEFAULT 0,
+         next_attempt_at INTEGER,
+         last_error TEXT,
+         PRIMARY KEY (user_address, vault_address)
+       )`
+    );
+    db.prepare(
+      `INSERT INTO registrations_v4
+         SELECT user_address, ?, authorization, max_fee_bps, registered_at, last_checked, status, status_reason,
+                rescue_tx_hash, failed_attempts, next_attempt_at, last_error
+         FROM registrations`
+    ).run(legacyVault ?? null);
+    db.exec(
+      `DROP TABLE registrations;
+       ALTER TABLE registrations_v4 RENAME TO registrations;
+       CREATE INDEX idx_registrations_status ON registrations (status);
+       ALTER TABLE rescue_attempts ADD COLUMN vault_address TEXT COLLATE NOCASE;`
+    );
+  },
+  // JSON array of hashes
+  `ALTER TABLE rescue_attempts ADD COLUMN replaced_tx_hashes TEXT;`,
+];
+
+// ============ Errors ============
+
+export class StoreLockedError extends Error {
+  constructor(public pid: number) {
+    super(`The registration store is in use by process ${pid}; stop it first`);
+    this.name = 'StoreLockedError';
+  }
+}
+
+// ============ SQLite Store ============
+
+interface RegistrationRow {
+  user_address: string;
+  vault_address: string;
+  authorization: string;
+  max_fee_bps: number;
+  registered_at: number;
+  last_checked: number | null;
+  status: RegistrationStatus;
+  status_reason: string | null;
+  rescue_tx_hash: string | null;
+  failed_attempts: number;
+  next_attempt_at: number | null;
+  last_error: string | null;
+}
+
+type KeyedAuthorizationRow = Pick<RegistrationRow, 'user_address' | 'authorization'> & { rowid: number };
+
+interface AttemptRow {
+  user_address: string;
+  vault_address: string | null;
+  attempted_at: number;
+  success: number;
+  tx_hash: string | null;
+  replaced_tx_hashes: string | null;
+  error: string | null;
+}
+
+export class SqliteRegistrationStore implements RegistrationStore {
+  readonly kind = 'sqlite';
+  private db: Database.Database;
+  private cipher?: StoreCipher;
+
+  constructor(file: string, cipher?: StoreCipher, legacyVault?: `0x${string}`) {
+    this.db = new Database(file);
+    this.cipher = cipher;
+    // WAL lets CLI commands read while the bot writes
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate({ legacyVault });
+    if (cipher) this.encryptPlaintext();
+  }
+
+  get encrypted(): boolean {
+    return this.cipher !== undefined;
+  }
+
+  get(userAddress: string, vaultAddress: string): RegisteredUser | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM registrations WHERE user_address = ? AND vault_address = ?')
+      .get(userAddress, vaultAddress) as RegistrationRow | undefined;
+    return row && this.fromRow(row);
+  }
+
+  getForUser(userAddress: string): RegisteredUser[] {
+    const rows = this.db
+      .prepare('SELECT * FROM registrations WHERE user_address = ? ORDER BY registered_at')
+      .all(userAddress) as RegistrationRow[];
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  getAll(): RegisteredUser[] {
+    const rows = this.db
+      .prepare('SELECT * FROM registrations ORDER BY registered_at')
+      .all() as RegistrationRow[];
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  getPending(): RegisteredUser[] {
+    return this.getByStatus('pending');
+  }
+
+  getByStatus(status: RegistrationStatus): RegisteredUser[] {
+    const rows = this.db
+      .prepare('SELECT * FROM registrations WHERE status = ? ORDER BY registered_at')
+      .all(status) as RegistrationRow[];
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  save(user: RegisteredUser): void {
+    this.db
+      .prepare(
+        `INSERT INTO registrations
+           (user_address, vault_address, authorization, max_fee_bps, registered_at, last_checked, status,
+            status_reason, rescue_tx_hash, failed_attempts, next_attempt_at, last_error)
+         VALUES (@user_address, @vault_address, @authorization, @max_fee_bps, @registered_at, @last_checked, @status,
+                 @status_reason, @rescue_tx_hash, @failed_attempts, @next_attempt_at, @last_error)
+         ON CONFLICT (user_address, vault_address) DO UPDATE SET
+           authorization = excluded.authorization,
+           max_fee_bps = excluded.max_fee_bps,
+           registered_at = excluded.registered_at,
+           last_checked = excluded.last_checked,
+           status = excluded.status,
+           status_reason = excluded.status_reason,
+           rescue_tx_hash = excluded.rescue_tx_hash,
+           failed_attempts = excluded.failed_attempts,
+           next_attempt_at = excluded.next_attempt_at,
+           last_error = excluded.last_error`
+      )
+      .run(this.toRow(user));
+  }
+
+  delete(userAddress: string, vaultAddress: string): void {
+    this.db
+      .prepare('DELETE FROM registrations WHERE user_address = ? AND vault_address = ?')
+      .run(userAddress, vaultAddress);
+  }
+
+  recordAttempt(attempt: RescueAttempt): void {
+    this.db
+      .prepare(
+        `INSERT INTO rescue_attempts
+           (user_address, vault_address, attempted_at, success, tx_hash, replaced_tx_hashes, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        attempt.userAddress,
+        attempt.vaultAddress ?? null,
+        attempt.attemptedAt,
+        attempt.success ? 1 : 0,
+        attempt.txHash ?? null,
+        attempt.replacedTxHashes?.length ? JSON.stringify(attempt.replacedTxHashes) : null,
+        attempt.error ?? null
+      );
+  }
+
+  getAttempts(userAddress: string, vaultAddress?: string): RescueAttempt[] {
+    const rows = (
+      vaultAddress
+        ? this.db
+            .prepare('SELECT * FROM rescue_attempts WHERE user_address = ? AND vault_address = ? ORDER BY attempted_at')
+            .all(userAddress, vaultAddress)
+        : this.db
+            .prepare('SELECT * FROM rescue_attempts WHERE user_address = ? ORDER BY attempted_at')
+            .all(userAddress)
+    ) as AttemptRow[];
+    return rows.map((row) => ({
+      userAddress: row.user_address as `0x${string}`,
+      vaultAddress: (row.vault_address ?? undefined) as `0x${string}` | undefined,
+      attemptedAt: row.attempted_at,
+      success: row.success === 1,
+      txHash: row.tx_hash ?? undefined,
+      replacedTxHashes: row.replaced_tx_hashes ? (JSON.parse(row.replaced_tx_hashes) as string[]) : undefined,
+      error: row.error ?? undefined,
+    }));
+  }
+
+  /**
+   * Import users from a registrations.json written by the JSON store
+   * Existing rows win; returns the number of users imported
+   */
+  importUsers(users: RegisteredUser[]): number {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO registrations
+         (user_address, vault_address, authorization, max_fee_bps, registered_at, last_checked, status,
+          status_reason, rescue_tx_hash, failed_attempts, next_attempt_at, last_error)
+       VALUES (@user_address, @vault_address, @authorization, @max_fee_bps, @registered_at, @last_checked, @status,
+               @status_reason, @rescue_tx_hash, @failed_attempts, @next_attempt_at, @last_error)`
+    );
+    const importAll = this.db.transaction((rows: RegisteredUser[]) =>
+      rows.reduce((count, user) => count + insert.run(this.toRow(user)).changes, 0)
+    );
+    return importAll(users);
+  }
+
+  rekey(cipher: StoreCipher | undefined): number {
+    const rows = this.db
+      .prepare('SELECT rowid, user_address, authorization FROM registrations')
+      .all() as KeyedAuthorizationRow[];
+    const update = this.db.prepare('UPDATE registrations SET authorization = ? WHERE rowid = ?');
+
+    // Decrypt everything before writing anything, so a wrong current key
+    // fails the rotation without touching the database
+    const reencrypted = rows.map((row) => {
+      const authorization = decodeAuthorization(row.user_address, row.authorization, this.cipher);
+      return [encodeAuthorization(row.user_address, authorization, cipher), row.rowid] as const;
+    });
+    this.db.transaction(() => {
+      for (const [authorization, rowid] of reencrypted) {
+        update.run(authorization, rowid);
+      }
+    })();
+
+    this.cipher = cipher;
+    return rows.length;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private encryptPlaintext(): void {
+    const rows = this.db
+      .prepare("SELECT rowid, user_address, authorization FROM registrations WHERE authorization NOT LIKE 'v1:%'")
+      .all() as KeyedAuthorizationRow[];
+    if (rows.length === 0) return;
+
+    const update = this.db.prepare('UPDATE registrations SET authorization = ? WHERE rowid = ?');
+    this.db.transaction(() => {
+      for (const row of rows) {
+        const authorization = JSON.parse(row.authorization);
+        update.run(encodeAuthorization(row.user_address, authorization, this.cipher), row.rowid);
+      }
+    })();
+    console.log(`🔐 Encrypted ${rows.length} plaintext authorizations`);
+  }
+
+  private toRow(user: RegisteredUser): RegistrationRow {
+    return {
+      user_address: user.userAddress,
+      vault_address: user.vaultAddress,
+      authorization: encodeAuthorization(user.userAddress, user.authorization, this.cipher),
+      max_fee_bps: user.maxFeeBps,
+      registered_at: user.registeredAt,
+      last_checked: user.lastChecked ?? null,
+      status: user.status,
+      status_reason: user.statusReason ?? null,
+      rescue_tx_hash: user.rescueTxHash ?? null,
+      failed_attempts: user.failedAttempts ?? 0,
+      next_attempt_at: user.nextAttemptAt ?? null,
+      last_error: user.lastError ?? null,
+    };
+  }
+
+  private fromRow(row: RegistrationRow): RegisteredUser {
+    return {
+      userAddress: row.user_address as `0x${string}`,
+      vaultAddress: row.vault_address as `0x${string}`,
+      authorization: decodeAuthorization(row.user_address, row.authorization, this.cipher),
+      maxFeeBps: row.max_fee_bps,
+      registeredAt: row.registered_at,
+      lastChecked: row.last_checked ?? undefined,
+      status: row.status,
+      statusReason: row.status_reason ?? undefined,
+      rescueTxHash: row.rescue_tx_hash ?? undefined,
+      failedAttempts: row.failed_attempts,
+      nextAttemptAt: row.next_attempt_at ?? undefined,
+      lastError: row.last_error ?? undefined,
+    };
+  }
+
+  private migrate(context: MigrationContext): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < SQLITE_MIGRATIONS.length; i++) {
+      const migration = SQLITE_MIGRATIONS[i];
+      this.db.transaction(() => {
+        if (typeof migration === 'string') {
+          this.db.exec(migration);
+        } else {
+          migration(this.db, context);
+        }
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+}
+
+// ============ Authorization Encoding ============
+
+function encodeAuthorization(
+  userAddress: string,
+  authorization: AuthorizationTuple,
+  cipher: StoreCipher | undefined
+): string {
+  const json = JSON.stringify(authorization);
+  return cipher ? cipher.encrypt(json, userAddress) : json;
+}
+
+function decodeAuthorization(
+  userAddress: string,
+  stored: string,
+  cipher: StoreCipher | undefined
+): AuthorizationTuple {
+  if (!StoreCipher.isEncrypted(stored)) {
+    return JSON.parse(stored);
+  }
+  if (!cipher) {
+    throw new StoreDecryptionError(
+      `Authorization for ${userAddress} is encrypted; set BOT_STORE_PASSPHRASE or BOT_STORE_KEY_FILE`
+    );
+  }
+  return JSON.parse(cipher.decrypt(stored, userAddress));
+}
+
+// ============ JSON Store ============
+
+export class JsonRegistrationStore implements RegistrationStore {
+  readonly kind = 'json';
+  private users: Map<string, RegisteredUser> = new Map();
+  private file: string;
+  private attemptsFile: string;
+  private cipher?: StoreCipher;
+
+  constructor(dataDir: string, cipher?: StoreCipher, legacyVault?: `0x${string}`) {
+    this.file = path.join(dataDir, JSON_FILE);
+    this.attemptsFile = path.join(dataDir, JSON_ATTEMPTS_FILE);
+    this.cipher = cipher;
+
+    const { users, plaintext, legacy } = readJsonRegistrations(this.file, cipher, legacyVault);
+    for (const user of users) {
+      this.users.set(registrationKey(user.userAddress, user.vaultAddress), user);
+    }
+    const encrypt = cipher !== undefined && plaintext > 0;
+    if (encrypt || legacy > 0) {
+      this.flush();
+      if (encrypt) console.log(`🔐 Encrypted ${plaintext} plaintext authorizations`);
+      if (legacy > 0) console.log(`📦 Assigned ${legacy} registrations to vault ${legacyVault}`);
+    }
+  }
+
+  get encrypted(): boolean {
+    return this.cipher !== undefined;
+  }
+
+  get(userAddress: string, vaultAddress: string): RegisteredUser | undefined {
+    return this.users.get(registrationKey(userAddress, vaultAddress));
+  }
+
+  getForUser(userAddress: string): RegisteredUser[] {
+    return this.getAll().filter((u) => u.userAddress.toLowerCase() === userAddress.toLowerCase());
+  }
+
+  getAll(): RegisteredUser[] {
+    return Array.from(this.users.values());
+  }
+
+  getPending(): RegisteredUser[] {
+    return this.getByStatus('pending');
+  }
+
+  getByStatus(status: RegistrationStatus): RegisteredUser[] {
+    return this.getAll().filter((u) => u.status === status);
+  }
+
+  save(user: RegisteredUser): void {
+    this.users.set(registrationKey(user.userAddress, user.vaultAddress), user);
+    this.flush();
+  }
+
+  delete(userAddress: string, vaultAddress: string): void {
+    this.users.delete(registrationKey(userAddress, vaultAddress));
+    this.flush();
+  }
+
+  recordAttempt(attempt: RescueAttempt): void {
+    fs.appendFileSync(this.attemptsFile, JSON.stringify(attempt) + '\n');
+  }
+
+  getAttempts(userAddress: string, vaultAddress?: string): RescueAttempt[] {
+    if (!fs.existsSync(this.attemptsFile)) return [];
+    return fs
+      .readFileSync(this.attemptsFile, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as RescueAttempt)
+      .filter((a) => a.userAddress.toLowerCase() === userAddress.toLowerCase())
+      .filter((a) => !vaultAddress || a.vaultAddress?.toLowerCase() === vaultAddress.toLowerCase());
+  }
+
+  rekey(cipher: StoreCipher | undefined): number {
+    // Authorizations are held decrypted in memory; rewrite them with the new key
+    this.cipher = cipher;
+    this.flush();
+    return this.users.size;
+  }
+
+  close(): void {}
+
+  /**
+   * Write to a temp file and rename over the original, so a crash
+   * mid-write never leaves a truncated registrations file behind
+   */
+  private flush(): void {
+    const entries = this.getAll().map((user) => ({
+      ...user,
+      authorization: this.cipher
+        ? encodeAuthorization(user.userAddress, user.authorization, this.cipher)
+        : user.authorization,
+    }));
+    const tmpFile = `${this.file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(entries, null, 2), { mode: 0o600 });
+    fs.renameSync(tmpFile, this.file);
+  }
+}
+
+function registrationKey(userAddress: string, vaultAddress: string): string {
+  return `${userAddress.toLowerCase()}:${vaultAddress.toLowerCase()}`;
+}
+
+/**
+ * Read a registrations.json; encrypted authorizations are stored as strings,
+ * plaintext ones (written without a key) as objects. Entries written before
+ * registrations had a vault are assigned legacyVault.
+ */
+function readJsonRegistrations(
+  file: string,
+  cipher: StoreCipher | undefined,
+  legacyVault: `0x${string}` | undefined
+): { users: RegisteredUser[]; plaintext: number; legacy: number } {
+  if (!fs.existsSync(file)) return { users: [], plaintext: 0, legacy: 0 };
+
+  const entries = JSON.parse(fs.readFileSync(file, 'utf-8')) as Array<
+    Omit<RegisteredUser, 'authorization' | 'status' | 'vaultAddress'> & {
+      authorization: AuthorizationTuple | string;
+      status?: RegistrationStatus;
+      vaultAddress?: `0x${string}`;
+      // Files written before registrations had a status
+      rescued?: boolean;
+    }
+  >;
+  let plaintext = 0;
+  let legacy = 0;
+  const users = entries.map(({ rescued, ...entry }): RegisteredUser => {
+    const status = entry.status ?? (rescued ? 'rescued' : 'pending');
+    if (!entry.vaultAddress) {
+      if (!legacyVault) {
+        throw new Error(`Registration for ${entry.userAddress} has no vault; open the store with legacyVault set`);
+      }
+      legacy++;
+    }
+    const vaultAddress = entry.vaultAddress ?? legacyVault!;
+    if (typeof entry.authorization !== 'string') {
+      plaintext++;
+      return { ...entry, vaultAddress, status, authorization: entry.authorization };
+    }
+    return {
+      ...entry,
+      vaultAddress,
+      status,
+      authorization: decodeAuthorization(entry.userAddress, entry.authorization, cipher),
+    };
+  });
+  return { users, plaintext, legacy };
+}
+
+// ============ Factory ============
+
+/**
+ * Open the registration store configured by BOT_STORE (sqlite | json),
+ * encrypted with the key from BOT_STORE_PASSPHRASE / BOT_STORE_KEY_FILE
+ */
+export function createRegistrationStore(
+  dataDir: string,
+  options: RegistrationStoreOptions = {}
+): RegistrationStore {
+  const kind = options.kind ?? ((process.env.BOT_STORE as StoreKind) || 'sqlite');
+  const cipher = 'cipher' in options ? options.cipher : createStoreCipherFromEnv();
+
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+  }
+  if (!cipher) {
+    console.warn('⚠️ Registration store is not encrypted (set BOT_STORE_PASSPHRASE or BOT_STORE_KEY_FILE)');
+  }
+
+  if (kind === 'json') {
+    return new JsonRegistrationStore(dataDir, cipher, options.legacyVault);
+  }
+  if (kind !== 'sqlite') {
+    throw new Error(`Unknown BOT_STORE "${kind}" (expected sqlite or json)`);
+  }
+
+  const store = new SqliteRegistrationStore(path.join(dataDir, SQLITE_FILE), cipher, options.legacyVault);
+  migrateJsonFile(store, path.join(dataDir, JSON_FILE), cipher, options.legacyVault);
+  return store;
+}
+
+/**
+ * One-time import of the legacy JSON file. It may hold plaintext
+ * authorizations, so it is deleted once every registration in it reads back
+ * from SQLite; otherwise it is kept and the import retried on the next start
+ */
+function migrateJsonFile(
+  store: SqliteRegistrationStore,
+  file: string,
+  cipher: StoreCipher | undefined,
+  legacyVault: `0x${string}` | undefined
+): void {
+  if (!fs.existsSync(file)) return;
+
+  const { users } = readJsonRegistrations(file, cipher, legacyVault);
+  const imported = store.importUsers(users);
+  const missing = users.filter((user) => !store.get(user.userAddress, user.vaultAddress));
+  if (missing.length > 0) {
+    console.warn(
+      `⚠️ ${missing.length} registrations from ${path.basename(file)} are missing from SQLite; keeping the file`
+    );
+    return;
+  }
+
+  fs.unlinkSync(file);
+  console.log(`📦 Migrated ${imported} registrations from ${path.basename(file)} to SQLite and deleted it`);
+}
+
+// ============ Lock ============
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Take the data directory's store lock for this process, returning a release
+ * function. Throws StoreLockedError while another live process holds it; a
+ * lock left by a process that died is taken over
+ */
+export function lockRegistrationStore(dataDir: string): () => void {
+  const file = path.join(dataDir, LOCK_FILE);
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true, mode: 0o700 });
+  }
+
+  for (;;) {
+    try {
+      fs.writeFileSync(file, String(process.pid), { flag: 'wx', mode: 0o600 });
+      return () => fs.rmSync(file, { force: true });
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+
+    let owner: number;
+    try {
+      owner = parseInt(fs.readFileSync(file, 'utf8'), 10);
+    } catch (error: any) {
+      // Released in the meantime
+      if (error.code === 'ENOENT') continue;
+      throw error;
+    }
+    if (Number.isInteger(owner) && owner !== process.pid && isProcessAlive(owner)) {
+      throw new StoreLockedError(owner);
+    }
+    console.warn(`⚠️ Removing stale registration store lock${Number.isInteger(owner) ? ` of process ${owner}` : ''}`);
+    fs.rmSync(file, { force: true });
+  }
+}
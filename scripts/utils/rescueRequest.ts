@@ -0,0 +1,192 @@
+/**
+ * Rescue Request Types & Parsing
+ *
+ * Shared shape of a rescue request as produced by userSign.ts and accepted
+ * by the relayer (CLI and HTTP). JSON carries bigints as decimal strings, so
+ * everything coming off the wire goes through parseRescueRequest (or
+ * parseBatchRescueRequest for several vaults) first.
+ */
+
+import { isAddress, isHex } from 'viem';
+
+// ============ Types ============
+
+// Types for EIP-7702
+export interface SignedAuthorization {
+  contractAddress: `0x${string}`;
+  chainId: number;
+  nonce: bigint;
+  v: number;
+  r: `0x${string}`;
+  s: `0x${string}`;
+}
+
+export interface RescueRequest {
+  userAddress: `0x${string}`;
+  vaultAddress: `0x${string}`;
+  authorization: SignedAuthorization;
+  maxFee: bigint;
+  timestamp: number;
+}
+
+/**
+ * Rescue of several vaults in one executeBatchRescue transaction
+ */
+export interface BatchRescueRequest {
+  userAddress: `0x${string}`;
+  vaults: { vaultAddress: `0x${string}`; maxFee: bigint }[];
+  authorization: SignedAuthorization;
+  timestamp: number;
+}
+
+// ============ Parsing ============
+
+export class InvalidRescueRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRescueRequestError';
+  }
+}
+
+function expectAddress(value: unknown, field: string): `0x${string}` {
+  if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+    throw new InvalidRescueRequestError(`${field} must be an address`);
+  }
+  return value as `0x${string}`;
+}
+
+function expectHex(value: unknown, field: string): `0x${string}` {
+  if (typeof value !== 'string' || !isHex(value, { strict: true })) {
+    throw new InvalidRescueRequestError(`${field} must be a hex string`);
+  }
+  return value;
+}
+
+function expectBigInt(value: unknown, field: string): bigint {
+  if (typeof value === 'bigint') return value;
+  if (
+    (typeof value === 'string' && /^\d+$/.test(value)) ||
+    (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0)
+  ) {
+    return BigInt(value);
+  }
+  throw new InvalidRescueRequestError(`${field} must be a non-negative integer`);
+}
+
+function expectNumber(value: unknown, field: string): number {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isSafeInteger(parsed) || parsed < 0) {
+    throw new InvalidRescueRequestError(`${field} must be a non-negative integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse an untrusted JSON payload into a RescueRequest
+ * Throws InvalidRescueRequestError describing the first bad field
+ */
+export function parseRescueRequest(body: unknown): RescueRequest {
+  if (!body || typeof body !== 'object') {
+    throw new InvalidRescueRequestError('Request body must be a JSON object');
+  }
+  const raw = body as Record<string, any>;
+
+  return {
+    userAddress: expectAddress(raw.userAddress, 'userAddress'),
+    vaultAddress: expectAddress(raw.vaultAddress, 'vaultAddress'),
+    authorization: parseSignedAuthorization(raw.authorization),
+    maxFee: expectBigInt(raw.maxFee, 'maxFee'),
+    timestamp: raw.timestamp === undefined ? Date.now() : expectNumber(raw.timestamp, 'timestamp'),
+  };
+}
+
+/**
+ * Parse an untrusted JSON payload into a BatchRescueRequest
+ * ({ userAddress, vaults: [{ vaultAddress, maxFee }], authorization })
+ */
+export function parseBatchRescueRequest(body: unknown): BatchRescueRequest {
+  if (!body || typeof body !== 'object') {
+    throw new InvalidRescueRequestError('Request body must be a JSON object');
+  }
+  const raw = body as Record<string, any>;
+  if (!Array.isArray(raw.vaults) || raw.vaults.length === 0) {
+    throw new InvalidRescueRequestError('vaults must be a non-empty array');
+  }
+
+  const vaults = raw.vaults.map((entry: any, i: number) => ({
+    vaultAddress: expectAddress(entry?.vaultAddress, `vaults[${i}].vaultAddress`),
+    maxFee: expectBigInt(entry?.maxFee, `vaults[${i}].maxFee`),
+  }));
+  const unique = new Set(vaults.map((v: { vaultAddress: string }) => v.vaultAddress.toLowerCase()));
+  if (unique.size !== vaults.length) {
+    throw new InvalidRescueRequestError('vaults must not contain duplicates');
+  }
+
+  return {
+    userAddress: expectAddress(raw.userAddress, 'userAddress'),
+    vaults,
+    authorization: parseSignedAuthorization(raw.authorization),
+    timestamp: raw.timestamp === undefined ? Date.now() : expectNumber(raw.timestamp, 'timestamp'),
+  };
+}
+
+/**
+ * Whether a request body asks for a batch rescue (has a vaults array)
+ */
+export function isBatchRescueRequest(body: unknown): boolean {
+  return !!body && typeof body === 'object' && Array.isArray((body as Record<string, unknown>).vaults);
+}
+
+function parseSignedAuthorization(auth: any): SignedAuthorization {
+  if (!auth || typeof auth !== 'object') {
+    throw new InvalidRescueRequestError('authorization is required');
+  }
+  return {
+    contractAddress: expectAddress(auth.contractAddress, 'authorization.contractAddress'),
+    chainId: expectNumber(auth.chainId, 'authorization.chainId'),
+    nonce: expectBigInt(auth.nonce, 'authorization.nonce'),
+    v: expectNumber(auth.v, 'authorization.v'),
+    r: expectHex(auth.r, 'authorization.r'),
+    s: expectHex(auth.s, 'authorization.s'),
+  };
+}
+
+/**
+ * Parse an authorization already in authorizationList form
+ * ({ address, chainId, nonce, r, s, yParity }), as stored by the bot
+ */
+export function parseAuthorizationTuple(body: unknown, field: string = 'authorization') {
+  if (!body || typeof body !== 'object') {
+    throw new InvalidRescueRequestError(`${field} must be an object`);
+  }
+  const raw = body as Record<string, unknown>;
+  const yParity = expectNumber(raw.yParity, `${field}.yParity`);
+  if (yParity > 1) {
+    throw new InvalidRescueRequestError(`${field}.yParity must be 0 or 1`);
+  }
+
+  return {
+    address: expectAddress(raw.address, `${field}.address`),
+    chainId: expectNumber(raw.chainId, `${field}.chainId`),
+    nonce: expectNumber(raw.nonce, `${field}.nonce`),
+    r: expectHex(raw.r, `${field}.r`),
+    s: expectHex(raw.s, `${field}.s`),
+    yParity,
+  };
+}
+
+/**
+ * Convert a request's authorization into the tuple viem expects in an
+ * authorizationList
+ */
+export function toAuthorizationTuple(authorization: SignedAuthorization) {
+  return {
+    address: authorization.contractAddress,
+    chainId: authorization.chainId,
+    nonce: Number(authorization.nonce),
+    r: authorization.r,
+    s: authorization.s,
+    // Accept both legacy v (27/28) and raw yParity (0/1)
+    yParity: authorization.v >= 27 ? authorization.v - 27 : authorization.v,
+  };
+}
@@ -0,0 +1,430 @@
+/**
+ * Rescue HTTP Server
+ *
+ * Minimal HTTP front-end for the relayer so wallets and partners can submit
+ * rescue requests without shell access to the relayer box:
+ * - POST /rescue       - submit a RescueRequest, returns a job id (202)
+ * - POST /rescue/batch - submit a BatchRescueRequest (several vaults, one tx)
+ * - GET  /rescue/:id   - poll the job (queued/submitted/confirmed/reverted/...)
+ * - GET  /health       - relayer liveness and balances
+ *
+ * The server only handles transport and job bookkeeping; validation and
+ * execution are injected by the relayer so the logic stays in one place.
+ */
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import type { Hex } from 'viem';
+import type { RescueRejection, VaultRescueResult } from '@zero-g/sdk';
+import {
+  parseBatchRescueRequest,
+  parseRescueRequest,
+  InvalidRescueRequestError,
+  type BatchRescueRequest,
+  type RescueRequest,
+} from './rescueRequest';
+
+// ============ Types ============
+
+export type RescueJobStatus =
+  | 'queued'
+  | 'submitted'
+  | 'confirmed'
+  | 'reverted'
+  | 'failed';
+
+export interface RescueJob {
+  id: string;
+  status: RescueJobStatus;
+  userAddress: `0x${string}`;
+  // Single rescues have vaultAddress, batch rescues vaultAddresses
+  vaultAddress?: `0x${string}`;
+  vaultAddresses?: `0x${string}`[];
+  createdAt: number;
+  updatedAt: number;
+  txHash?: Hex;
+  // Earlier versions of txHash, replaced while stuck
+  replacedTxHashes?: Hex[];
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  mevProtected?: boolean;
+  breakdown?: VaultRescueResult[];
+  error?: string;
+}
+
+export interface RescueValidation {
+  valid: boolean;
+  reason?: string;
+  rejection?: RescueRejection;
+}
+
+export interface RescueExecution {
+  success: boolean;
+  txHash?: Hex;
+  replacedTxHashes?: Hex[];
+  // The stuck rescue was replaced by a self-transfer
+  cancelled?: boolean;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  mevProtected?: boolean;
+  breakdown?: VaultRescueResult[];
+  error?: string;
+}
+
+export interface RescueServerHandlers {
+  validate: (request: RescueRequest) => Promise<RescueValidation>;
+  execute: (
+    request: RescueRequest,
+    onSubmitted: (txHash: Hex) => void
+  ) => Promise<RescueExecution>;
+  // POST /rescue/batch is only served when both are provided
+  validateBatch?: (request: BatchRescueRequest) => Promise<RescueValidation>;
+  executeBatch?: (
+    request: BatchRescueRequest,
+    onSubmitted: (txHash: Hex) => void
+  ) => Promise<RescueExecution>;
+  health: () => Promise<Record<string, unknown>>;
+}
+
+export interface RescueServerConfig {
+  port: number;
+  host: string;
+  maxBodyBytes: number;
+  jobTtlMs: number;
+}
+
+// ============ Constants ============
+
+const DEFAULT_CONFIG: RescueServerConfig = {
+  port: 3001,
+  host: '0.0.0.0',
+  maxBodyBytes: 64 * 1024,
+  jobTtlMs: 60 * 60 * 1000, // Keep finished jobs for 1 hour
+};
+
+const FINISHED_STATUSES: RescueJobStatus[] = ['confirmed', 'reverted', 'failed'];
+
+// ============ Helpers ============
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * JSON.stringify replacer that renders bigints as decimal strings
+ */
+function bigintReplacer(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+  res.end(JSON.stringify(body, bigintReplacer));
+}
+
+function jobVaults(job: Pick<RescueJob, 'vaultAddress' | 'vaultAddresses'>): string[] {
+  return (job.vaultAddresses ?? (job.vaultAddress ? [job.vaultAddress] : [])).map((v) => v.toLowerCase());
+}
+
+/**
+ * Parse a request body, turning validation errors into 400s
+ */
+function parseBody<T>(body: unknown, parse: (body: unknown) => T): T {
+  try {
+    return parse(body);
+  } catch (error) {
+    if (error instanceof InvalidRescueRequestError) {
+      throw new HttpError(400, error.message);
+    }
+    throw error;
+  }
+}
+
+function readJsonBody(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new HttpError(400, 'Request body must be valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// ============ Server ============
+
+export class RescueServer {
+  private config: RescueServerConfig;
+  private handlers: RescueServerHandlers;
+  private jobs: Map<string, RescueJob> = new Map();
+  // Requests still being validated: they block duplicates but GET /rescue/:id
+  // doesn't see them until they are queued
+  private reservations: Map<string, Pick<RescueJob, 'userAddress' | 'vaultAddress' | 'vaultAddresses'>> =
+    new Map();
+  private server?: http.Server;
+
+  constructor(handlers: RescueServerHandlers, config: Partial<RescueServerConfig> = {}) {
+    this.handlers = handlers;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start listening for requests
+   */
+  listen(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.route(req, res).catch((error) => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) {
+          console.error('❌ Unhandled server error:', error);
+        }
+        sendJson(res, status, { error: error.message || 'Internal server error' });
+      });
+    });
+
+    // Startup errors (EADDRINUSE, EACCES) reject instead of being emitted unhandled
+    return new Promise((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.config.port, this.config.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stop accepting requests
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve();
+      this.server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  getJob(id: string): RescueJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  private async route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      return this.handleHealth(res);
+    }
+
+    if (segments[0] === 'rescue') {
+      if (req.method === 'POST' && segments.length === 1) {
+        return this.handleSubmit(req, res);
+      }
+      if (
+        req.method === 'POST' &&
+        segments.length === 2 &&
+        segments[1] === 'batch' &&
+        this.handlers.validateBatch &&
+        this.handlers.executeBatch
+      ) {
+        return this.handleBatchSubmit(req, res);
+      }
+      if (req.method === 'GET' && segments.length === 2) {
+        const job = this.jobs.get(segments[1]);
+        if (!job) throw new HttpError(404, 'Rescue job not found');
+        return sendJson(res, 200, job);
+      }
+    }
+
+    throw new HttpError(404, 'Not found');
+  }
+
+  private async handleHealth(res: http.ServerResponse): Promise<void> {
+    const activeJobs = Array.from(this.jobs.values()).filter(
+      (job) => !FINISHED_STATUSES.includes(job.status)
+    ).length;
+
+    try {
+      const details = await this.handlers.health();
+      sendJson(res, 200, { status: 'ok', activeJobs, ...details });
+    } catch (error: any) {
+      sendJson(res, 503, { status: 'unavailable', activeJobs, error: error.message });
+    }
+  }
+
+  private async handleSubmit(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await readJsonBody(req, this.config.maxBodyBytes);
+    const request = parseBody(body, parseRescueRequest);
+
+    return this.submit(res, request.userAddress, { vaultAddress: request.vaultAddress }, {
+      validate: () => this.handlers.validate(request),
+      execute: (onSubmitted) => this.handlers.execute(request, onSubmitted),
+    });
+  }
+
+  private async handleBatchSubmit(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await readJsonBody(req, this.config.maxBodyBytes);
+    const request = parseBody(body, parseBatchRescueRequest);
+
+    return this.submit(
+      res,
+      request.userAddress,
+      { vaultAddresses: request.vaults.map((v) => v.vaultAddress) },
+      {
+        validate: () => this.handlers.validateBatch!(request),
+        execute: (onSubmitted) => this.handlers.executeBatch!(request, onSubmitted),
+      }
+    );
+  }
+
+  /**
+   * Validate a parsed request and run it as a background job
+   */
+  private async submit(
+    res: http.ServerResponse,
+    userAddress: `0x${string}`,
+    vaults: Pick<RescueJob, 'vaultAddress' | 'vaultAddresses'>,
+    run: {
+      validate: () => Promise<RescueValidation>;
+      execute: (onSubmitted: (txHash: Hex) => void) => Promise<RescueExecution>;
+    }
+  ): Promise<void> {
+    this.pruneJobs();
+
+    // One in-flight rescue per user/vault: a second one would only revert
+    const requested = jobVaults(vaults);
+    const sameStake = (entry: Pick<RescueJob, 'userAddress' | 'vaultAddress' | 'vaultAddresses'>) =>
+      entry.userAddress.toLowerCase() === userAddress.toLowerCase() &&
+      jobVaults(entry).some((vault) => requested.includes(vault));
+    const duplicate = Array.from(this.jobs.values()).find(
+      (job) => !FINISHED_STATUSES.includes(job.status) && sameStake(job)
+    );
+    if (duplicate || Array.from(this.reservations.values()).some(sameStake)) {
+      return sendJson(res, 409, {
+        error: 'A rescue for this user and vault is already in progress',
+        // A request still being validated has no job to poll yet
+        jobId: duplicate?.id,
+      });
+    }
+
+    // Reserve the stake before validating: validation awaits the RPC, and a
+    // concurrent request for the same stake must see this one as a duplicate
+    const reservationId = randomUUID();
+    this.reservations.set(reservationId, { userAddress, ...vaults });
+    let validation: RescueValidation;
+    try {
+      validation = await run.validate();
+    } finally {
+      this.reservations.delete(reservationId);
+    }
+    if (!validation.valid) {
+      return sendJson(res, 422, {
+        error: validation.reason || 'Rescue request rejected',
+        reason: validation.rejection,
+      });
+    }
+
+    const now = Date.now();
+    const job: RescueJob = {
+      id: randomUUID(),
+      status: 'queued',
+      userAddress,
+      ...vaults,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+
+    // Run in the background; clients poll GET /rescue/:id for the outcome
+    void this.runJob(job, run.execute);
+
+    sendJson(res, 202, { jobId: job.id, status: job.status });
+  }
+
+  private async runJob(
+    job: RescueJob,
+    execute: (onSubmitted: (txHash: Hex) => void) => Promise<RescueExecution>
+  ): Promise<void> {
+    const update = (fields: Partial<RescueJob>) => {
+      Object.assign(job, fields, { updatedAt: Date.now() });
+    };
+
+    try {
+      // Called again with the new hash whenever a stuck transaction is replaced
+      const result = await execute((txHash) => {
+        const replacedTxHashes =
+          job.txHash && job.txHash !== txHash
+            ? [...(job.replacedTxHashes ?? []), job.txHash]
+            : job.replacedTxHashes;
+        update({ status: 'submitted', txHash, replacedTxHashes });
+      });
+
+      update({
+        status: result.success ? 'confirmed' : result.txHash && !result.cancelled ? 'reverted' : 'failed',
+        txHash: result.txHash,
+        replacedTxHashes: result.replacedTxHashes,
+        blockNumber: result.blockNumber,
+        gasUsed: result.gasUsed,
+        mevProtected: result.mevProtected,
+        breakdown: result.breakdown,
+        error: result.error,
+      });
+    } catch (error: any) {
+      update({ status: 'failed', error: error.message || String(error) });
+    }
+  }
+
+  /**
+   * Drop finished jobs older than the configured TTL
+   */
+  private pruneJobs(): void {
+    const cutoff = Date.now() - this.config.jobTtlMs;
+    for (const [id, job] of this.jobs) {
+      if (FINISHED_STATUSES.includes(job.status) && job.updatedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Create a rescue server with settings from the environment
+ */
+export function createRescueServer(
+  handlers: RescueServerHandlers,
+  config: Partial<RescueServerConfig> = {}
+): RescueServer {
+  return new RescueServer(handlers, {
+    port: parseInt(process.env.RELAYER_PORT || String(DEFAULT_CONFIG.port), 10),
+    host: process.env.RELAYER_HOST || DEFAULT_CONFIG.host,
+    ...config,
+  });
+}
@@ -0,0 +1,44 @@
+/**
+ * Rescue Retry Policy
+ *
+ * Failed bot rescues are retried with exponential backoff; after
+ * maxAttempts consecutive failures the registration is dead-lettered and
+ * left alone until an operator requeues it.
+ */
+
+// ============ Types ============
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// ============ Constants ============
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.BOT_MAX_ATTEMPTS || '5', 10),
+  baseDelayMs: parseInt(process.env.BOT_RETRY_BASE_MS || '60000', 10), // 1 minute
+  maxDelayMs: parseInt(process.env.BOT_RETRY_MAX_MS || '3600000', 10), // 1 hour
+};
+
+// ±10% so rescues that failed together don't all retry in the same block
+const JITTER = 0.1;
+
+// ============ Helper Functions ============
+
+/**
+ * Delay before the next try after `failedAttempts` consecutive failures
+ */
+export function getRetryDelay(policy: RetryPolicy, failedAttempts: number): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, failedAttempts - 1);
+  const jittered = exponential * (1 + (Math.random() * 2 - 1) * JITTER);
+  return Math.round(Math.min(jittered, policy.maxDelayMs));
+}
+
+/**
+ * Whether another failure should dead-letter the registration
+ */
+export function isRetryExhausted(policy: RetryPolicy, failedAttempts: number): boolean {
+  return failedAttempts >= policy.maxAttempts;
+}
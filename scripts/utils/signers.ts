@@ -0,0 +1,248 @@
+/**
+ * Signers
+ *
+ * Loads the deployer, relayer and user accounts from one of three sources,
+ * configured per role (DEPLOYER, RELAYER, USER) in the environment:
+ * - <ROLE>_KEYSTORE: an encrypted JSON keystore (V3, as written by
+ *   `cast wallet import`), unlocked with the passphrase in
+ *   <ROLE>_KEYSTORE_PASSWORD_FILE or typed at a prompt
+ * - <ROLE>_SIGNER_URL: a Web3Signer-compatible remote signer, optionally
+ *   pinned to <ROLE>_SIGNER_ADDRESS
+ * - <ROLE>_PRIVATE_KEY: a raw private key, for development
+ *
+ * Keystores and remote signers keep plaintext keys out of .env.
+ */
+
+import { createDecipheriv, pbkdf2, scrypt } from 'crypto';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import { getAddress, isAddressEqual, keccak256, type Address, type Hex, type LocalAccount } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { createRemoteSignerAccount } from '@zero-g/sdk';
+
+// ============ Types ============
+
+// SIGNER_STUB is the key served by scripts/signerStub.ts
+export type SignerRole = 'DEPLOYER' | 'RELAYER' | 'USER' | 'SIGNER_STUB';
+
+export type SignerSource = 'keystore' | 'remote' | 'private-key';
+
+// Web3 Secret Storage (V3) keystore
+export interface KeystoreV3 {
+  version: 3;
+  address?: string;
+  crypto: {
+    cipher: string;
+    cipherparams: { iv: string };
+    ciphertext: string;
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: {
+      dklen: number;
+      salt: string;
+      // scrypt
+      n?: number;
+      r?: number;
+      p?: number;
+      // pbkdf2
+      c?: number;
+      prf?: string;
+    };
+    mac: string;
+  };
+}
+
+// ============ Errors ============
+
+export class KeystoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeystoreError';
+  }
+}
+
+// ============ Keystores ============
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number; maxmem: number }
+) => Promise<Buffer>;
+const pbkdf2Async = promisify(pbkdf2);
+
+// Keystores record the address without 0x
+function keystoreAddress(address: string): Address {
+  return getAddress(`0x${address.replace(/^0x/, '')}`);
+}
+
+export function readKeystore(file: string): KeystoreV3 {
+  const keystore = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  // Some tools write "Crypto"
+  if (!keystore.crypto && keystore.Crypto) keystore.crypto = keystore.Crypto;
+  if (keystore.version !== 3 || !keystore.crypto) {
+    throw new KeystoreError(`${file} is not a V3 JSON keystore`);
+  }
+  return keystore;
+}
+
+/**
+ * Decrypt a V3 keystore and return its private key
+ */
+export async function decryptKeystore(keystore: KeystoreV3, passphrase: string): Promise<Hex> {
+  const { cipher, cipherparams, ciphertext, kdf, kdfparams, mac } = keystore.crypto;
+  if (cipher !== 'aes-128-ctr') {
+    throw new KeystoreError(`Unsupported keystore cipher "${cipher}"`);
+  }
+
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  let derivedKey: Buffer;
+  if (kdf === 'scrypt') {
+    const { n, r, p } = kdfparams as Required<KeystoreV3['crypto']['kdfparams']>;
+    // scrypt needs about 128 * r * (n + p) bytes; allow twice that
+    const maxmem = 256 * r * (n + p + 2);
+    try {
+      derivedKey = await scryptAsync(passphrase, salt, kdfparams.dklen, { N: n, r, p, maxmem });
+    } catch (error: any) {
+      throw new KeystoreError(`Unsupported scrypt parameters n=${n}, r=${r}, p=${p}: ${error.message}`);
+    }
+  } else if (kdf === 'pbkdf2') {
+    if (kdfparams.prf !== 'hmac-sha256') {
+      throw new KeystoreError(`Unsupported keystore prf "${kdfparams.prf}"`);
+    }
+    derivedKey = await pbkdf2Async(passphrase, salt, kdfparams.c!, kdfparams.dklen, 'sha256');
+  } else {
+    throw new KeystoreError(`Unsupported keystore kdf "${kdf}"`);
+  }
+
+  const encrypted = Buffer.from(ciphertext, 'hex');
+  const expectedMac = keccak256(Buffer.concat([derivedKey.subarray(16, 32), encrypted]));
+  if (expectedMac.slice(2) !== mac.toLowerCase()) {
+    throw new KeystoreError('Wrong keystore passphrase');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(cipherparams.iv, 'hex'));
+  const privateKey = Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  return `0x${privateKey.toString('hex')}`;
+}
+
+/**
+ * Read a passphrase from the terminal without echoing it
+ * (stdin in raw mode: the terminal doesn't echo, keypresses are collected here)
+ */
+async function promptPassphrase(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    throw new KeystoreError(`${question.trim()} (no terminal to prompt on; use a password file)`);
+  }
+
+  process.stdout.write(question);
+  stdin.setRawMode(true);
+  stdin.setEncoding('utf-8');
+  stdin.resume();
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      let passphrase = '';
+      const onData = (chunk: string) => {
+        for (const char of chunk) {
+          switch (char) {
+            case '\r':
+            case '\n':
+            case '\u0004': // Ctrl-D
+              stdin.off('data', onData);
+              return resolve(passphrase);
+            case '\u0003': // Ctrl-C (raw mode doesn't raise SIGINT)
+              stdin.off('data', onData);
+              return reject(new KeystoreError('Passphrase prompt cancelled'));
+            case '\u007f': // Backspace
+            case '\b':
+              passphrase = Array.from(passphrase).slice(0, -1).join('');
+              break;
+            default:
+              passphrase += char;
+          }
+        }
+      };
+      stdin.on('data', onData);
+    });
+  } finally {
+    stdin.setRawMode(false);
+    stdin.pause();
+    process.stdout.write('\n');
+  }
+}
+
+// ============ Environment ============
+
+/**
+ * Which signer source is configured for a role (undefined when none)
+ */
+export function getSignerSource(role: SignerRole): SignerSource | undefined {
+  const configured = [
+    process.env[`${role}_KEYSTORE`] && ('keystore' as const),
+    process.env[`${role}_SIGNER_URL`] && ('remote' as const),
+    process.env[`${role}_PRIVATE_KEY`] && ('private-key' as const),
+  ].filter((source): source is SignerSource => Boolean(source));
+
+  if (configured.length > 1) {
+    throw new Error(`Set only one of ${role}_KEYSTORE, ${role}_SIGNER_URL and ${role}_PRIVATE_KEY`);
+  }
+  return configured[0];
+}
+
+function notConfigured(role: SignerRole): Error {
+  return new Error(
+    `No ${role.toLowerCase()} signer configured (set ${role}_KEYSTORE, ${role}_SIGNER_URL or ${role}_PRIVATE_KEY)`
+  );
+}
+
+/**
+ * Load the signing account for a role, unlocking its keystore or connecting
+ * to its remote signer
+ */
+export async function loadSigner(role: SignerRole): Promise<LocalAccount> {
+  switch (getSignerSource(role)) {
+    case 'keystore': {
+      const file = process.env[`${role}_KEYSTORE`]!;
+      const keystore = readKeystore(file);
+      const passwordFile = process.env[`${role}_KEYSTORE_PASSWORD_FILE`];
+      const passphrase = passwordFile
+        ? fs.readFileSync(passwordFile, 'utf-8').replace(/\r?\n$/, '')
+        : await promptPassphrase(`🔑 Passphrase for ${role.toLowerCase()} keystore ${file}: `);
+
+      const account = privateKeyToAccount(await decryptKeystore(keystore, passphrase));
+      if (keystore.address && !isAddressEqual(account.address, keystoreAddress(keystore.address))) {
+        throw new KeystoreError(`Keystore ${file} decrypted to ${account.address}, not its recorded address`);
+      }
+      return account;
+    }
+
+    case 'remote':
+      return createRemoteSignerAccount({
+        url: process.env[`${role}_SIGNER_URL`]!,
+        address: process.env[`${role}_SIGNER_ADDRESS`] as Address | undefined,
+      });
+
+    case 'private-key':
+      return privateKeyToAccount(process.env[`${role}_PRIVATE_KEY`] as Hex);
+
+    default:
+      throw notConfigured(role);
+  }
+}
+
+/**
+ * The address of a role's account, without unlocking it where possible
+ * (keystores record their address; remote signers are asked otherwise)
+ */
+export async function getSignerAddress(role: SignerRole): Promise<Address> {
+  const source = getSignerSource(role);
+  if (source === 'keystore') {
+    const address = readKeystore(process.env[`${role}_KEYSTORE`]!).address;
+    if (address) return keystoreAddress(address);
+  }
+  if (source === 'remote' && process.env[`${role}_SIGNER_ADDRESS`]) {
+    return getAddress(process.env[`${role}_SIGNER_ADDRESS`]!);
+  }
+  if (!source) throw notConfigured(role);
+  return (await loadSigner(role)).address;
+}
@@ -0,0 +1,153 @@
+/**
+ * Registration Store Encryption
+ *
+ * Signed EIP-7702 authorizations delegate a user's EOA to UnstakeDelegate, so
+ * anyone holding them can replay the delegation. The registration store keeps
+ * them encrypted with AES-256-GCM using either:
+ * - a key derived with scrypt from an operator passphrase (BOT_STORE_PASSPHRASE)
+ * - a 32-byte key file, hex or base64 encoded (BOT_STORE_KEY_FILE)
+ *
+ * Payload format: v1:<p|k>:[salt:]iv:tag:ciphertext (base64 fields). Each
+ * payload is bound to its row (the user address) as additional data.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import * as fs from 'fs';
+
+// ============ Constants ============
+
+const VERSION = 'v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+// ============ Errors ============
+
+export class StoreDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoreDecryptionError';
+  }
+}
+
+// ============ Cipher ============
+
+export class StoreCipher {
+  readonly source: 'passphrase' | 'key-file';
+  private passphrase?: string;
+  private key?: Buffer;
+  // Salt for new passphrase payloads, and keys derived per salt seen
+  private salt = randomBytes(SALT_BYTES);
+  private derivedKeys: Map<string, Buffer> = new Map();
+
+  private constructor(source: 'passphrase' | 'key-file', secret: string | Buffer) {
+    this.source = source;
+    if (typeof secret === 'string') {
+      this.passphrase = secret;
+    } else {
+      this.key = secret;
+    }
+  }
+
+  static fromPassphrase(passphrase: string): StoreCipher {
+    if (passphrase.length < 12) {
+      throw new Error('Store passphrase must be at least 12 characters');
+    }
+    return new StoreCipher('passphrase', passphrase);
+  }
+
+  static fromKeyFile(file: string): StoreCipher {
+    const contents = fs.readFileSync(file);
+    const text = contents.toString('utf-8').trim();
+    const key = /^(0x)?[0-9a-fA-F]{64}$/.test(text)
+      ? Buffer.from(text.replace(/^0x/, ''), 'hex')
+      : contents.length === KEY_BYTES
+        ? contents
+        : Buffer.from(text, 'base64');
+
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Key file ${file} must contain a ${KEY_BYTES}-byte key (hex or base64)`);
+    }
+    return new StoreCipher('key-file', key);
+  }
+
+  /**
+   * Generate a new random key file (readable by the owner only)
+   */
+  static generateKeyFile(file: string): StoreCipher {
+    fs.writeFileSync(file, randomBytes(KEY_BYTES).toString('hex') + '\n', { mode: 0o600, flag: 'wx' });
+    return StoreCipher.fromKeyFile(file);
+  }
+
+  static isEncrypted(value: string): boolean {
+    return value.startsWith(`${VERSION}:`);
+  }
+
+  encrypt(plaintext: string, associatedData: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.keyFor(this.salt), iv);
+    cipher.setAAD(Buffer.from(associatedData.toLowerCase()));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+
+    const fields = [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString('base64'));
+    return this.passphrase !== undefined
+      ? [VERSION, 'p', this.salt.toString('base64'), ...fields].join(':')
+      : [VERSION, 'k', ...fields].join(':');
+  }
+
+  decrypt(payload: string, associatedData: string): string {
+    const [version, mode, ...fields] = payload.split(':');
+    if (version !== VERSION) {
+      throw new StoreDecryptionError(`Unsupported payload version "${version}"`);
+    }
+    if ((mode === 'p') !== (this.passphrase !== undefined)) {
+      throw new StoreDecryptionError(
+        `Data was encrypted with a ${mode === 'p' ? 'passphrase' : 'key file'}, but a ${this.source} is configured`
+      );
+    }
+
+    const salt = mode === 'p' ? Buffer.from(fields.shift()!, 'base64') : undefined;
+    const [iv, tag, ciphertext] = fields.map((f) => Buffer.from(f, 'base64'));
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.keyFor(salt), iv);
+      decipher.setAAD(Buffer.from(associatedData.toLowerCase()));
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new StoreDecryptionError('Could not decrypt stored authorization (wrong key or corrupted data)');
+    }
+  }
+
+  private keyFor(salt?: Buffer): Buffer {
+    if (this.key) return this.key;
+
+    const cacheKey = salt!.toString('base64');
+    let key = this.derivedKeys.get(cacheKey);
+    if (!key) {
+      key = scryptSync(this.passphrase!, salt!, KEY_BYTES, SCRYPT_PARAMS);
+      this.derivedKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Build the store cipher configured in the environment
+ * - <PREFIX>_PASSPHRASE: derive the key from a passphrase
+ * - <PREFIX>_KEY_FILE: read the key from a file
+ * Returns undefined when neither is set
+ */
+export function createStoreCipherFromEnv(prefix: string = 'BOT_STORE'): StoreCipher | undefined {
+  const passphrase = process.env[`${prefix}_PASSPHRASE`];
+  const keyFile = process.env[`${prefix}_KEY_FILE`];
+
+  if (passphrase && keyFile) {
+    throw new Error(`Set only one of ${prefix}_PASSPHRASE and ${prefix}_KEY_FILE`);
+  }
+  if (passphrase) return StoreCipher.fromPassphrase(passphrase);
+  if (keyFile) return StoreCipher.fromKeyFile(keyFile);
+  return undefined;
+}
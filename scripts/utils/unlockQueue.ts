@@ -0,0 +1,122 @@
+/**
+ * Unlock Queue
+ *
+ * Min-heap of registrations (user, vault) keyed by the time their stake
+ * unlocks, so the bot can sleep until the earliest unlock instead of polling
+ * everyone.
+ * - Each (user, vault) has at most one live entry; rescheduling supersedes the old one
+ * - Superseded and removed entries are dropped lazily when they reach the top
+ */
+
+// ============ Types ============
+
+export interface UnlockEntry {
+  userAddress: `0x${string}`;
+  vaultAddress: `0x${string}`;
+  // Unix timestamp (seconds) at which the user becomes rescuable
+  unlockTime: bigint;
+}
+
+// ============ Unlock Queue ============
+
+export class UnlockQueue {
+  private heap: UnlockEntry[] = [];
+  // Current unlock time per user:vault (lowercased); heap entries that disagree are stale
+  private scheduled: Map<string, bigint> = new Map();
+
+  get size(): number {
+    return this.scheduled.size;
+  }
+
+  has(userAddress: string, vaultAddress: string): boolean {
+    return this.scheduled.has(entryKey(userAddress, vaultAddress));
+  }
+
+  /**
+   * Add a registration or move it to a new unlock time
+   */
+  schedule(userAddress: `0x${string}`, vaultAddress: `0x${string}`, unlockTime: bigint): void {
+    const key = entryKey(userAddress, vaultAddress);
+    if (this.scheduled.get(key) === unlockTime) return;
+
+    this.scheduled.set(key, unlockTime);
+    this.heap.push({ userAddress, vaultAddress, unlockTime });
+    this.siftUp(this.heap.length - 1);
+  }
+
+  remove(userAddress: string, vaultAddress: string): void {
+    this.scheduled.delete(entryKey(userAddress, vaultAddress));
+  }
+
+  /**
+   * Earliest live entry, without removing it
+   */
+  peek(): UnlockEntry | undefined {
+    this.dropStale();
+    return this.heap[0];
+  }
+
+  /**
+   * Remove and return every registration unlocked at or before `now` (seconds)
+   */
+  popDue(now: bigint, limit: number = Infinity): UnlockEntry[] {
+    const due: UnlockEntry[] = [];
+    while (due.length < limit) {
+      const next = this.peek();
+      if (!next || next.unlockTime > now) break;
+      this.pop();
+      this.scheduled.delete(entryKey(next.userAddress, next.vaultAddress));
+      due.push(next);
+    }
+    return due;
+  }
+
+  private dropStale(): void {
+    while (this.heap.length > 0) {
+      const top = this.heap[0];
+      if (this.scheduled.get(entryKey(top.userAddress, top.vaultAddress)) === top.unlockTime) return;
+      this.pop();
+    }
+  }
+
+  private pop(): UnlockEntry | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.heap[parent].unlockTime <= this.heap[index].unlockTime) return;
+      [this.heap[parent], this.heap[index]] = [this.heap[index], this.heap[parent]];
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    while (true) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.heap[left].unlockTime < this.heap[smallest].unlockTime) {
+        smallest = left;
+      }
+      if (right < length && this.heap[right].unlockTime < this.heap[smallest].unlockTime) {
+        smallest = right;
+      }
+      if (smallest === index) return;
+      [this.heap[smallest], this.heap[index]] = [this.heap[index], this.heap[smallest]];
+      index = smallest;
+    }
+  }
+}
+
+function entryKey(userAddress: string, vaultAddress: string): string {
+  return `${userAddress.toLowerCase()}:${vaultAddress.toLowerCase()}`;
+}
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "./interfaces/IUnstakeDelegate.sol";
+
+/**
+ * @title RescueBatcher
+ * @author Zero-G Unstake Team
+ * @notice Runs the rescues of many users in a single transaction
+ * @dev The relayer sends one EIP-7702 transaction to this contract carrying
+ *      every user's authorization. Once the authorizations are applied each
+ *      user's EOA runs UnstakeDelegate, and this contract calls executeRescue
+ *      on them in turn with the caller as the relayer.
+ *
+ *      The batch is all-or-nothing: if any rescue reverts, the whole
+ *      transaction reverts and the relayer falls back to single rescues.
+ *
+ * SECURITY CONSIDERATIONS:
+ * - Holds no funds and no state; fees go straight from each EOA to msg.sender
+ * - Anyone may call it, exactly as anyone may call executeRescue on a
+ *   delegated EOA; each user's maxFee still bounds what they pay
+ */
+contract RescueBatcher {
+    // ============ Errors ============
+    error EmptyBatch();
+    error NotDelegated(address user);
+
+    // ============ Types ============
+
+    struct Rescue {
+        // The user's EOA, delegated to UnstakeDelegate
+        address user;
+        // The staking vault to unstake from
+        address vault;
+        // Maximum fee (in tokens) the user accepts
+        uint256 maxFee;
+    }
+
+    // ============ Events ============
+
+    /// @notice Emitted after every rescue in a batch succeeded
+    /// @dev Each rescue also emits RescueExecuted from the user's EOA
+    event BatchExecuted(address indexed relayer, uint256 rescueCount);
+
+    // ============ External Functions ============
+
+    /**
+     * @notice Execute a batch of rescues, paying every fee to the caller
+     * @dev A user may appear more than once (one entry per vault)
+     * @param rescues The user, vault and max fee of each rescue
+     */
+    function rescueBatch(Rescue[] calldata rescues) external {
+        if (rescues.length == 0) revert EmptyBatch();
+
+        for (uint256 i = 0; i < rescues.length; i++) {
+            Rescue calldata rescue = rescues[i];
+
+            // Nodes skip invalid authorizations, leaving the EOA without code;
+            // name the user instead of reverting without data
+            if (rescue.user.code.length == 0) revert NotDelegated(rescue.user);
+
+            IUnstakeDelegate(rescue.user).executeRescue(rescue.vault, msg.sender, rescue.maxFee);
+        }
+
+        emit BatchExecuted(msg.sender, rescues.length);
+    }
+}
@@ -28,6 +28,8 @@ contract UnstakeDelegate is IUnstakeDelegate {
     error InsufficientUnstakedAmount();
     error TransferFailed();
     error NotDelegatedCall();
+    error EmptyBatch();
+    error LengthMismatch();
 
     // ============ Constants ============
     
@@ -39,7 +41,7 @@ contract UnstakeDelegate is IUnstakeDelegate {
 
     // ============ Events ============
     
-    // RescueExecuted is inherited from IUnstakeDelegate
+    // RescueExecuted and BatchRescueExecuted are inherited from IUnstakeDelegate
 
     // ============ External Functions ============
 
@@ -62,9 +64,51 @@ contract UnstakeDelegate is IUnstakeDelegate {
         address relayer,
         uint256 maxFee
     ) external override {
+        if (relayer == address(0)) revert ZeroAddress();
+        _rescue(vault, relayer, maxFee);
+    }
+
+    /**
+     * @notice Rescue stakes from several vaults in one transaction
+     * @dev Runs the executeRescue flow for every vault in order, paying each
+     *      vault's fee (in that vault's token) to the relayer. Reverts as a
+     *      whole if any vault can't be rescued, so the user is never left
+     *      with a partially paid batch.
+     * 
+     * @param vaults The staking vaults to unstake from
+     * @param relayer The relayer address to reimburse for gas
+     * @param maxFees Maximum fee (in tokens) the user accepts, per vault
+     * @return totalRelayerFee Sum of the fees paid (mixed units if the vaults' tokens differ)
+     */
+    function executeBatchRescue(
+        address[] calldata vaults,
+        address relayer,
+        uint256[] calldata maxFees
+    ) external override returns (uint256 totalRelayerFee) {
+        if (vaults.length == 0) revert EmptyBatch();
+        if (vaults.length != maxFees.length) revert LengthMismatch();
+        if (relayer == address(0)) revert ZeroAddress();
+
+        for (uint256 i = 0; i < vaults.length; i++) {
+            totalRelayerFee += _rescue(vaults[i], relayer, maxFees[i]);
+        }
+
+        emit BatchRescueExecuted(address(this), relayer, vaults.length, totalRelayerFee);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Unstake from one vault and pay the relayer its fee
+     * @return relayerFee The fee transferred to the relayer
+     */
+    function _rescue(
+        address vault,
+        address relayer,
+        uint256 maxFee
+    ) internal returns (uint256 relayerFee) {
         // Validate inputs
         if (vault == address(0)) revert ZeroAddress();
-        if (relayer == address(0)) revert ZeroAddress();
 
         // Get vault info
         IStakingVault stakingVault = IStakingVault(vault);
@@ -95,7 +139,7 @@ contract UnstakeDelegate is IUnstakeDelegate {
         if (received == 0) revert InsufficientUnstakedAmount();
 
         // Calculate relayer fee (percentage of unstaked amount)
-        uint256 relayerFee = (received * DEFAULT_RELAYER_FEE_BPS) / BPS_DENOMINATOR;
+        relayerFee = (received * DEFAULT_RELAYER_FEE_BPS) / BPS_DENOMINATOR;
         
         // Enforce max fee limit
         if (relayerFee > maxFee) {
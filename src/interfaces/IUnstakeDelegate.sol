@@ -16,6 +16,15 @@ interface IUnstakeDelegate {
         uint256 userReceived
     );
 
+    /// @notice Emitted after all vaults in a batch rescue were rescued
+    /// @dev Each vault also emits its own RescueExecuted
+    event BatchRescueExecuted(
+        address indexed user,
+        address indexed relayer,
+        uint256 vaultCount,
+        uint256 totalRelayerFee
+    );
+
     /// @notice Execute a rescue unstake operation
     /// @param vault The staking vault address
     /// @param relayer The relayer address to reimburse
@@ -25,4 +34,15 @@ interface IUnstakeDelegate {
         address relayer,
         uint256 maxFee
     ) external;
+
+    /// @notice Execute rescue unstakes from several vaults atomically
+    /// @param vaults The staking vault addresses
+    /// @param relayer The relayer address to reimburse
+    /// @param maxFees The maximum fee (in tokens) per vault
+    /// @return totalRelayerFee Sum of the fees paid to the relayer
+    function executeBatchRescue(
+        address[] calldata vaults,
+        address relayer,
+        uint256[] calldata maxFees
+    ) external returns (uint256 totalRelayerFee);
 }
@@ -5,6 +5,7 @@ import "forge-std/Test.sol";
 import "../src/ZeroGToken.sol";
 import "../src/StakingVault.sol";
 import "../src/UnstakeDelegate.sol";
+import "../src/RescueBatcher.sol";
 
 /**
  * @title ZeroGUnstakeTest
@@ -371,6 +372,184 @@ contract ZeroGUnstakeTest is Test {
         );
     }
 
+    // ============ Batch Rescue Tests ============
+
+    /// @dev Stake `amount` in a fresh vault with its own token and return it
+    function _stakeInNewVault(uint256 amount) internal returns (StakingVault newVault, ZeroGToken newToken) {
+        vm.startPrank(deployer);
+        newToken = new ZeroGToken(INITIAL_SUPPLY, deployer);
+        newVault = new StakingVault(address(newToken), LOCK_DURATION);
+        newToken.transfer(user, amount);
+        vm.stopPrank();
+
+        vm.startPrank(user);
+        newToken.approve(address(newVault), amount);
+        newVault.stake(amount);
+        vm.stopPrank();
+    }
+
+    function test_ExecuteBatchRescue_RescuesEveryVault() public {
+        vm.startPrank(user);
+        token.approve(address(vault), USER_TOKENS);
+        vault.stake(USER_TOKENS);
+        vm.stopPrank();
+        (StakingVault secondVault, ZeroGToken secondToken) = _stakeInNewVault(500 * 1e18);
+
+        vm.warp(block.timestamp + LOCK_DURATION + 1);
+        vm.etch(user, address(delegate).code);
+
+        address[] memory vaults = new address[](2);
+        vaults[0] = address(vault);
+        vaults[1] = address(secondVault);
+        uint256[] memory maxFees = new uint256[](2);
+        maxFees[0] = USER_TOKENS / 50;
+        maxFees[1] = 500 * 1e18 / 50;
+
+        vm.prank(relayer);
+        uint256 totalFee = UnstakeDelegate(user).executeBatchRescue(vaults, relayer, maxFees);
+
+        // Each vault pays its own 1% fee in its own token
+        assertEq(token.balanceOf(relayer), USER_TOKENS / 100, "Fee from first vault");
+        assertEq(secondToken.balanceOf(relayer), 500 * 1e18 / 100, "Fee from second vault");
+        assertEq(totalFee, USER_TOKENS / 100 + 500 * 1e18 / 100);
+
+        assertEq(token.balanceOf(user), USER_TOKENS - USER_TOKENS / 100);
+        assertEq(secondToken.balanceOf(user), 500 * 1e18 - 500 * 1e18 / 100);
+        assertEq(vault.stakedBalance(user), 0);
+        assertEq(secondVault.stakedBalance(user), 0);
+    }
+
+    function test_ExecuteBatchRescue_RevertsAtomicallyIfOneVaultIsLocked() public {
+        vm.startPrank(user);
+        token.approve(address(vault), USER_TOKENS);
+        vault.stake(USER_TOKENS);
+        vm.stopPrank();
+
+        vm.warp(block.timestamp + LOCK_DURATION + 1);
+        // Staked later, so still locked
+        (StakingVault lockedVault, ) = _stakeInNewVault(500 * 1e18);
+        vm.etch(user, address(delegate).code);
+
+        address[] memory vaults = new address[](2);
+        vaults[0] = address(vault);
+        vaults[1] = address(lockedVault);
+        uint256[] memory maxFees = new uint256[](2);
+        maxFees[0] = USER_TOKENS;
+        maxFees[1] = 500 * 1e18;
+
+        vm.prank(relayer);
+        vm.expectRevert(UnstakeDelegate.CannotUnstake.selector);
+        UnstakeDelegate(user).executeBatchRescue(vaults, relayer, maxFees);
+
+        // The unlocked vault was not rescued either
+        assertEq(vault.stakedBalance(user), USER_TOKENS);
+        assertEq(token.balanceOf(relayer), 0);
+    }
+
+    function test_ExecuteBatchRescue_RevertIfEmpty() public {
+        vm.etch(user, address(delegate).code);
+
+        vm.prank(relayer);
+        vm.expectRevert(UnstakeDelegate.EmptyBatch.selector);
+        UnstakeDelegate(user).executeBatchRescue(new address[](0), relayer, new uint256[](0));
+    }
+
+    function test_ExecuteBatchRescue_RevertIfLengthMismatch() public {
+        vm.etch(user, address(delegate).code);
+
+        address[] memory vaults = new address[](2);
+        vaults[0] = address(vault);
+        vaults[1] = address(vault);
+
+        vm.prank(relayer);
+        vm.expectRevert(UnstakeDelegate.LengthMismatch.selector);
+        UnstakeDelegate(user).executeBatchRescue(vaults, relayer, new uint256[](1));
+    }
+
+    // ============ Rescue Batcher Tests ============
+
+    /// @dev Give `account` `amount` tokens and stake them in the main vault
+    function _stakeFor(address account, uint256 amount) internal {
+        vm.prank(deployer);
+        token.transfer(account, amount);
+
+        vm.startPrank(account);
+        token.approve(address(vault), amount);
+        vault.stake(amount);
+        vm.stopPrank();
+    }
+
+    function _batch(address first, address second) internal view returns (RescueBatcher.Rescue[] memory rescues) {
+        rescues = new RescueBatcher.Rescue[](2);
+        rescues[0] = RescueBatcher.Rescue({user: first, vault: address(vault), maxFee: type(uint256).max});
+        rescues[1] = RescueBatcher.Rescue({user: second, vault: address(vault), maxFee: type(uint256).max});
+    }
+
+    function test_RescueBatcher_RescuesEveryUser() public {
+        RescueBatcher batcher = new RescueBatcher();
+        address secondUser = makeAddr("secondUser");
+        _stakeFor(user, USER_TOKENS);
+        _stakeFor(secondUser, 500 * 1e18);
+
+        vm.warp(block.timestamp + LOCK_DURATION + 1);
+        vm.etch(user, address(delegate).code);
+        vm.etch(secondUser, address(delegate).code);
+
+        // The caller is paid as the relayer
+        vm.prank(relayer);
+        batcher.rescueBatch(_batch(user, secondUser));
+
+        assertEq(token.balanceOf(relayer), USER_TOKENS / 100 + 500 * 1e18 / 100, "Relayer gets both fees");
+        assertEq(token.balanceOf(user), USER_TOKENS - USER_TOKENS / 100);
+        assertEq(token.balanceOf(secondUser), 500 * 1e18 - 500 * 1e18 / 100);
+        assertEq(vault.stakedBalance(user), 0);
+        assertEq(vault.stakedBalance(secondUser), 0);
+        assertEq(token.balanceOf(address(batcher)), 0, "Batcher holds nothing");
+    }
+
+    function test_RescueBatcher_RevertsAtomicallyIfOneUserIsLocked() public {
+        RescueBatcher batcher = new RescueBatcher();
+        address secondUser = makeAddr("secondUser");
+        _stakeFor(user, USER_TOKENS);
+
+        vm.warp(block.timestamp + LOCK_DURATION + 1);
+        // Staked later, so still locked
+        _stakeFor(secondUser, 500 * 1e18);
+        vm.etch(user, address(delegate).code);
+        vm.etch(secondUser, address(delegate).code);
+
+        vm.prank(relayer);
+        vm.expectRevert(UnstakeDelegate.CannotUnstake.selector);
+        batcher.rescueBatch(_batch(user, secondUser));
+
+        // The unlocked user was not rescued either
+        assertEq(vault.stakedBalance(user), USER_TOKENS);
+        assertEq(token.balanceOf(relayer), 0);
+    }
+
+    function test_RescueBatcher_RevertIfUserNotDelegated() public {
+        RescueBatcher batcher = new RescueBatcher();
+        address secondUser = makeAddr("secondUser");
+        _stakeFor(user, USER_TOKENS);
+        _stakeFor(secondUser, 500 * 1e18);
+
+        vm.warp(block.timestamp + LOCK_DURATION + 1);
+        // secondUser's authorization was skipped: no code at the EOA
+        vm.etch(user, address(delegate).code);
+
+        vm.prank(relayer);
+        vm.expectRevert(abi.encodeWithSelector(RescueBatcher.NotDelegated.selector, secondUser));
+        batcher.rescueBatch(_batch(user, secondUser));
+    }
+
+    function test_RescueBatcher_RevertIfEmpty() public {
+        RescueBatcher batcher = new RescueBatcher();
+
+        vm.prank(relayer);
+        vm.expectRevert(RescueBatcher.EmptyBatch.selector);
+        batcher.rescueBatch(new RescueBatcher.Rescue[](0));
+    }
+
     // ============ Integration Test ============
 
     function test_FullRescueFlow() public {